@@ -2,10 +2,13 @@ import _ from 'lodash'
 import {SchemaRegistry} from 'schema-fun'
 import winston from 'winston'
 
+import {QueryFunction} from './query-functions.js'
+
 export interface DocOrmConfigInput {
   logger?: winston.Logger,
   clsNamespaceName?: string,
   operationIdKey?: string,
+  userKey?: string,
   postgresql?: {
     host?: string,
     port?: number,
@@ -13,8 +16,46 @@ export interface DocOrmConfigInput {
     password?: string,
     database?: string,
     allowUnknownSslCertificate?: boolean,
-    ssl?: boolean
+    ssl?: boolean,
+    /** The application name reported to PostgreSQL, which appears in pg_stat_activity. */
+    applicationName?: string,
+    /** The maximum duration of any statement, in milliseconds. If absent, the server's setting applies. */
+    statementTimeout?: number,
+    pool?: {
+      /** The maximum number of clients in the pool. */
+      max?: number,
+      /** The minimum number of idle clients to keep in the pool. */
+      min?: number,
+      /** The time after which an idle client is closed, in milliseconds. */
+      idleTimeout?: number,
+      /** The time to wait for a new connection, in milliseconds. If absent, there is no limit. */
+      connectionTimeout?: number,
+      /**
+       * The time after which a warning is logged if a client has not been released, in milliseconds. Set to 0 to
+       * disable the warning.
+       */
+      leakWarningThreshold?: number
+    }
+  },
+  migrations?: {
+    directory?: string,
+    table?: string
+  },
+  /** Draft storage. If enabled, DAOs with a draft batch ID store items as drafts of the given entity type. */
+  drafts?: {
+    enabled?: boolean,
+    entityType?: string
+  },
+  /** Item version history. If enabled, previous versions of items are stored as items of the given entity type. */
+  history?: {
+    enabled?: boolean,
+    entityType?: string
   },
+  /**
+   * Functions that query expressions may call, in addition to the built-in functions, keyed by name. A function with
+   * the same name as a built-in function replaces it.
+   */
+  queryFunctions?: {[name: string]: QueryFunction},
   schemaRegistry?: SchemaRegistry
 }
 
@@ -22,25 +63,60 @@ export interface DocOrmConfig extends DocOrmConfigInput {
   logger?: winston.Logger,
   clsNamespaceName?: string,
   operationIdKey?: string,
+  userKey?: string,
   postgresql: {
-    host: string,
-    port: number,
-    username: string,
-    password: string,
+    host?: string,
+    port?: number,
+    username?: string,
+    password?: string,
     database?: string,
     allowUnknownSslCertificate: boolean,
-    ssl: boolean
+    ssl: boolean,
+    applicationName?: string,
+    statementTimeout?: number,
+    pool: {
+      max: number,
+      min?: number,
+      idleTimeout: number,
+      connectionTimeout?: number,
+      leakWarningThreshold: number
+    }
+  },
+  migrations: {
+    directory?: string,
+    table: string
+  },
+  drafts: {
+    enabled: boolean,
+    entityType: string
+  },
+  history: {
+    enabled: boolean,
+    entityType: string
   },
+  queryFunctions?: {[name: string]: QueryFunction},
   schemaRegistry?: SchemaRegistry
 }
 
 export const DEFAULT_DOC_ORM_CONFIG = {
   postgresql: {
-    host: 'localhost',
-    port: 5432,
-    username: 'postgres',
-    password: 'postgres',
     allowUnknownSslCertificate: false,
-    ssl: true
+    ssl: true,
+    pool: {
+      max: 100,
+      idleTimeout: 10000,
+      leakWarningThreshold: 5000
+    }
+  },
+  migrations: {
+    table: 'docorm_migrations'
+  },
+  drafts: {
+    enabled: true,
+    entityType: 'draft'
+  },
+  history: {
+    enabled: true,
+    entityType: 'item-version'
   }
 }
@@ -11,9 +11,7 @@ import {
   type JsonPathStr,
   jsonPathToPropertyPath,
   type JsonPointerStr,
-  mapPaths,
   pathDepth,
-  type PathTransformer,
   type PropertyPathStr,
   type Relationship,
   type Schema,
@@ -24,16 +22,40 @@ import {Readable, Transform} from 'stream'
 import {v4 as uuidv4} from 'uuid'
 
 import {docorm} from './index.js'
-import {Collection, Entity, EntityType, getEntityType, Id} from './entity-types.js'
+import {
+  Collection,
+  Entity,
+  EntityType,
+  getEntityType,
+  Id,
+  ItemVersion,
+  ItemVersionOperation,
+  User
+} from './entity-types.js'
 import {PersistenceError} from './errors.js'
-import {Client} from './postgresql/db.js'
+import {applyMergePatch, applyPatch, diff, isJsonPatch, JsonMergePatch, JsonPatch} from './json-patch.js'
+import {Client, getClsContext, withTransaction} from './postgresql/db.js'
 import {
+  AggregateMeasure,
+  AggregateResultRow,
   applyQuery,
+  mapQueryPaths,
   QueryClause,
   queryClauseIsAnd,
-  QueryOrder
+  QueryOrder,
+  QueryPathExpression,
+  type QueryPathTransformer
 } from './queries.js'
-import makeRawDao, {FetchResults, fetchResultsIsArray, fetchResultsIsStream} from './postgresql/raw-dao.js'
+import makeRawDao, {
+  CopyFormat,
+  CopyProgress,
+  FetchResults,
+  fetchResultsIsArray,
+  fetchResultsIsPage,
+  fetchResultsIsStream,
+  PropertyChanges,
+  UpsertResult
+} from './postgresql/raw-dao.js'
 /*
 import {
   ConcreteEntitySchema,
@@ -49,7 +71,7 @@ export type Dao = any
 /**
  * Return a function that transforms property paths.
  *
- * The function returns a value of type PathTransformer containing the transformed path together with additional
+ * The function returns a value of type QueryPathTransformer containing the transformed path together with additional
  * options.
  *
  * - If isDraft is true, the function will prepend `draft.` to all property paths other than `_id`.
@@ -64,7 +86,7 @@ export type Dao = any
  */
 const makePathTransformer = (schema: Schema, isDraft = false) =>
   (path: PropertyPathStr) => {
-    const result: ReturnType<PathTransformer> = {
+    const result: ReturnType<QueryPathTransformer> = {
       path: (path == '_id' || !isDraft) ? path : `draft.${path}`
     }
     const propertySchema = docorm.config.schemaRegistry?.findPropertyInSchema(schema, path)
@@ -120,13 +142,31 @@ interface CountOptions {
   client?: Client
 }
 
+interface AggregateOptions<Measures extends readonly AggregateMeasure[]> {
+  client?: Client
+  /** Paths of properties whose values define groups. If empty, all matching items form a single group. */
+  groupBy?: QueryPathExpression[]
+  measures: Measures
+}
+
 interface FetchOptionsInput {
   client?: Client,
   order?: QueryOrder,
   offset?: number,
   limit?: number,
   propertyBlacklist?: string[],
-  stream?: boolean
+  stream?: boolean,
+  /** A cursor from a previous page of results. Only items following it in the query order are fetched. */
+  after?: string,
+  /** A cursor from a previous page of results. Only items preceding it in the query order are fetched. */
+  before?: string,
+  /**
+   * A flag indicating whether to return a page of results with cursors ({items, startCursor, endCursor, hasMore}).
+   * Pagination is not supported when fetching the items in a collection.
+   */
+  paginate?: boolean,
+  /** Property paths to fetch. If present, items contain only these properties, together with _id and _type. */
+  properties?: string[]
 }
 
 interface FetchOptions extends FetchOptionsInput {
@@ -183,24 +223,219 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
   const transientPropertyPaths = docorm.config.schemaRegistry?.findTransientPropertiesInSchema(schema) || []
   const dbCallbacks = entityType.dbCallbacks || {}
 
-  const draftEntityType = await getEntityType('draft')
-  const rawDao = makeRawDao(draftBatchId ? draftEntityType : entityType)
+  // The draft and item version entity types are optional. If either is disabled or unregistered, its feature is off.
+  const {drafts: draftsConfig, history: historyConfig} = docorm.config
+  const draftEntityType = draftsConfig.enabled ?
+      getEntityType(draftsConfig.entityType, {required: false}) as EntityType | undefined
+      : undefined
+  if (draftBatchId && !draftEntityType) {
+    throw new PersistenceError(
+      'Cannot make a DAO for a draft batch because drafts are not enabled.',
+      {entityTypeName: entityType.name, draftBatchId}
+    )
+  }
+  const rawDao = makeRawDao((draftBatchId && draftEntityType) ? draftEntityType : entityType)
 
-  const mayTrackChanges = entityType.name != 'item-version'
-  const itemVersionEntityType = mayTrackChanges ? await getEntityType('item-version') : null
+  const mayTrackChanges = historyConfig.enabled && entityType.name != historyConfig.entityType
+  const itemVersionEntityType = mayTrackChanges ?
+      getEntityType(historyConfig.entityType, {required: false}) as EntityType | undefined
+      : undefined
   const itemVersionsDao = itemVersionEntityType ? await makeDao(itemVersionEntityType) : null
 
-  async function recordItemVersion(itemVersion: Entity, client = null) {
-    if (itemVersionsDao && itemVersion._id) {
-      await itemVersionsDao.insert({item: itemVersion}, [], {client})
+  /**
+   * Record a copy of an item as it was before an update or deletion, together with the time of the change and the
+   * current user and operation ID.
+   *
+   * @param item The item's state before the change.
+   * @param operation The kind of change.
+   * @param options
+   * @param options.client A database client to use.
+   * @param options.user The user making the change. If absent, the user is taken from the CLS context.
+   */
+  async function recordItemVersion(
+      item: Entity,
+      operation: ItemVersionOperation,
+      {client = null, user = undefined}: {client?: Client | null, user?: User} = {}
+  ) {
+    if (itemVersionsDao && item._id) {
+      const clsContext = getClsContext()
+      const itemVersion: Omit<ItemVersion, '_id'> = {
+        item,
+        itemType: entityType.name,
+        operation,
+        timestamp: new Date().toISOString(),
+        userId: (user || clsContext.user)?._id,
+        operationId: clsContext.operationId
+      }
+      await itemVersionsDao.insert(itemVersion, [], {client})
+    }
+  }
+
+  /**
+   * Determine whether to record an item's current version before deleting it.
+   *
+   * @param item The item that is about to be deleted.
+   * @return True if the deletion should be recorded in the item's history.
+   */
+  async function shouldTrackDeletion(item: Entity) {
+    if (draftBatchId || !mayTrackChanges || !itemVersionsDao) {
+      return false
+    }
+    const trackChange = entityType.history?.trackChange
+    return _.isFunction(trackChange) ? await trackChange(item, null) : !!trackChange
+  }
+
+  /**
+   * Determine whether to record an item's current version before updating it.
+   *
+   * @param originalItem The item as it is stored.
+   * @param item The item as it will be stored.
+   * @return True if the update should be recorded in the item's history.
+   */
+  async function shouldTrackUpdate(originalItem: Entity, item: Entity) {
+    if (draftBatchId || !mayTrackChanges || !itemVersionsDao) {
+      return false
+    }
+    const trackChange = entityType.history?.trackChange
+    if (_.isFunction(trackChange)) {
+      return await trackChange(originalItem, item)
     }
+    return !!trackChange && !_.isEqual(originalItem, item)
+  }
+
+  /**
+   * Insert items, or update the existing items that have the same values at the conflict target paths.
+   *
+   * Existing items are fetched first, so that the right callbacks run and updates are recorded in item histories. The
+   * write itself is a single upsert statement, and the after-insert or after-update callbacks run according to whether
+   * each item was in fact inserted or updated. An existing item that has been soft-deleted is updated and thereby
+   * restored.
+   *
+   * Fetching, recording versions and writing happen in one transaction. If an item that was not found beforehand is
+   * updated, because it was inserted concurrently, the transaction is rolled back.
+   *
+   * @param dao The DAO, which is passed to callbacks.
+   * @param items The items to upsert.
+   * @param conflictOn The conflict target paths.
+   * @param client A database client to use.
+   * @param user The user making the change, which is recorded in item histories.
+   * @return The stored items and flags indicating whether they were inserted, in the order of the items.
+   */
+  async function upsertItems(
+      dao: Dao,
+      items: Entity[],
+      conflictOn: PropertyPathStr[],
+      client?: Client,
+      user?: User
+  ): Promise<UpsertResult[]> {
+    if (draftBatchId) {
+      throw new PersistenceError('Upserting drafts is not supported.', {entityTypeName: entityType.name})
+    }
+    if (items.length == 0) {
+      return []
+    }
+    // Dates in fetched items correspond to ISO 8601 strings in items to be stored.
+    const keyFromItem = (item: Entity) => JSON.stringify(conflictOn.map((path) => {
+      const value = _.get(item, path)
+      return value instanceof Date ? value.toISOString() : (value ?? null)
+    }))
+
+    const originalItems: (Entity | null)[] = []
+    const results: UpsertResult[] = await withTransaction(async (transactionClient) => {
+      // A soft-deleted item still conflicts with a new item, so it must be found too.
+      const existingItems: Entity[] = await rawDao.fetch({
+        or: items.map((item) => ({
+          and: conflictOn.map((path) => ({l: {path}, r: {constant: _.get(item, path)}}))
+        }))
+      }, {client: transactionClient, deleted: 'include'}) as Entity[]
+      const existingItemsByKey = _.keyBy(existingItems, keyFromItem)
+
+      const itemsToTrack: Entity[] = []
+      for (let i = 0; i < items.length; i++) {
+        const item = dao.sanitizeItem(items[i])
+        items[i] = item
+        const originalItem = existingItemsByKey[keyFromItem(item)] || null
+        originalItems.push(originalItem)
+        if (originalItem) {
+          item._id = originalItem._id
+          for (const callback of dbCallbacks.beforeUpdate || []) {
+            await callback(originalItem, item, {dao, draftBatchId})
+          }
+          for (const callback of dbCallbacks.beforeUpdateWithoutOriginal || []) {
+            await callback(item, {dao, draftBatchId})
+          }
+          if (await shouldTrackUpdate(originalItem, item)) {
+            itemsToTrack.push(originalItem)
+          }
+        } else {
+          for (const callback of dbCallbacks.beforeInsert || []) {
+            await callback(item, {dao, draftBatchId})
+          }
+        }
+      }
+
+      const upsertResults: UpsertResult[] =
+          await rawDao.upsertMultipleItems(items, {client: transactionClient, conflictOn})
+      const unexpectedUpdateIndex = upsertResults.findIndex(({inserted}, i) => !inserted && !originalItems[i])
+      if (unexpectedUpdateIndex >= 0) {
+        throw new PersistenceError(
+          'Upsert failed because an item was inserted concurrently.',
+          {entityTypeName: entityType.name, id: upsertResults[unexpectedUpdateIndex].item._id}
+        )
+      }
+      for (const originalItem of itemsToTrack) {
+        await recordItemVersion(originalItem, 'update', {client: transactionClient, user})
+      }
+      return upsertResults
+    }, {client})
+
+    for (let i = 0; i < results.length; i++) {
+      const {item, inserted} = results[i]
+      const originalItem = originalItems[i]
+      if (inserted || !originalItem) {
+        for (const callback of dbCallbacks.afterInsert || []) {
+          await callback(item, {dao, draftBatchId})
+        }
+      } else {
+        for (const callback of dbCallbacks.afterUpdateWithoutOriginal || []) {
+          await callback(item, {dao, draftBatchId})
+        }
+        for (const callback of dbCallbacks.afterUpdate || []) {
+          await callback(originalItem, item, {dao, draftBatchId})
+        }
+      }
+    }
+    return results
+  }
+
+  /**
+   * Fetch one recorded version of an item.
+   *
+   * @param id The item's ID.
+   * @param versionId The ID of the item version.
+   * @param client A database client to use.
+   * @return The item version.
+   * @throws PersistenceError if there is no such version of this item.
+   */
+  async function fetchItemVersion(id: Id, versionId: Id, client?: Client | null): Promise<ItemVersion> {
+    if (!itemVersionsDao) {
+      throw new PersistenceError(
+        `Items of type "${entityType.name}" have no history.`,
+        {entityTypeName: entityType.name}
+      )
+    }
+    const version = await itemVersionsDao.fetchOneById(versionId, [], {client}) as ItemVersion | null
+    if (!version || version.item?._id != id) {
+      throw new PersistenceError('The item version does not exist.', {entityTypeName: entityType.name, id, versionId})
+    }
+    return version
   }
 
   function wrapDraft(item: Entity): Entity {
     return {
       _id: item._id,
       draftBatchId,
-      _type: draftEntityType.name,
+      _type: draftEntityType?.name,
       draft: _.assign(_.omit(item, '_id'), {_type: entityType.name})
     }
   }
@@ -209,6 +444,39 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
     return _.merge({}, draft.draft, {_id: draft._id, _type: draft._draftType})
   }
 
+  /**
+   * Prepare a query for the raw DAO by transforming its paths and, for drafts, restricting it to this DAO's draft batch
+   * and entity type.
+   *
+   * @param query The query, in terms of this DAO's entity type.
+   * @return The query in terms of the stored documents.
+   */
+  function makeStorageQuery(query?: QueryClause): QueryClause | undefined {
+    if (query === false) {
+      return false
+    }
+    if (query !== undefined) {
+      query = mapQueryPaths(query, makePathTransformer(schema, !!draftBatchId))
+    }
+    if (draftBatchId) {
+      const draftClauses: QueryClause[] = [
+        {l: {path: 'draft._type'}, r: {constant: entityType.name}},
+        {l: {path: 'draftBatchId'}, r: {constant: draftBatchId}}
+      ]
+      return {and: [...draftClauses, ...(query !== undefined ? [query] : [])]}
+    }
+    return query
+  }
+
+  function makeStoragePath(path: PropertyPathStr): PropertyPathStr {
+    return (path == '_id' || !draftBatchId) ? path : `draft.${path}`
+  }
+
+  function makeStorageProperties(properties?: PropertyPathStr[]): PropertyPathStr[] | undefined {
+    // Drafts need their wrapped entity type in order to be unwrapped.
+    return (properties && draftBatchId) ? ['draft._type', ...properties.map(makeStoragePath)] : properties
+  }
+
   return {
     entityType: entityType,
     //concreteSchema: concreteSchema,
@@ -246,7 +514,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         return items.length
       } else {
         if (query != undefined && query !== false) {
-          query = mapPaths(query, makePathTransformer(schema, !!draftBatchId))
+          query = mapQueryPaths(query, makePathTransformer(schema, !!draftBatchId))
         }
         if (query != undefined && query !== false) {
           if (draftBatchId) {
@@ -271,16 +539,61 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
       }
     },
 
+    /**
+     * Compute aggregate measures over the items matching a query, optionally grouped by property values.
+     *
+     * Collections are not supported; the aggregate is computed over all items of this DAO's entity type (or, for a
+     * draft DAO, over this DAO's draft batch).
+     *
+     * @param query The query that selects items to aggregate.
+     * @param options
+     * @param options.groupBy Paths of properties whose values define groups.
+     * @param options.measures The measures to compute, such as `{name: 'total', function: 'sum', path: 'quantity'}`.
+     * @return One result row per group, with group values keyed by the paths given in groupBy.
+     */
+    aggregate: async function<Measures extends readonly AggregateMeasure[]>(
+        query: QueryClause | undefined,
+        options: AggregateOptions<Measures>
+    ): Promise<AggregateResultRow<Measures>[]> {
+      const {client, groupBy = [], measures} = options
+      const storageMeasures = measures.map((measure) => {
+        let type = measure.type
+        if (!type && measure.path && ['min', 'max'].includes(measure.function)) {
+          const propertySchema = docorm.config.schemaRegistry?.findPropertyInSchema(schema, measure.path)
+          const propertySchemaType = (propertySchema as any)?.type
+          type = ['number', 'integer'].includes(propertySchemaType) ? 'number' : 'text'
+        }
+        return {...measure, path: measure.path ? makeStoragePath(measure.path) : undefined, type}
+      })
+      const storageGroupBy = groupBy.map((path) => ({...path, path: makeStoragePath(path.path)}))
+      const results = await rawDao.aggregate(
+        makeStorageQuery(query),
+        {client, groupBy: storageGroupBy, measures: storageMeasures}
+      )
+      // Key group values by the caller's paths rather than the storage paths.
+      return results.map((result) => ({
+        group: _.fromPairs(groupBy.map((path, i) => [path.path, result.group[storageGroupBy[i].path]])),
+        measures: result.measures
+      })) as AggregateResultRow<Measures>[]
+    },
+
     fetch: async function(
         query?: QueryClause,
         parentIds: string[] = [],
         options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS
     ) {
-      let {client, order, offset, limit, propertyBlacklist, stream} = _.merge({}, FETCH_DEFAULT_OPTIONS, options) as
-          FetchOptions
+      let {client, order, offset, limit, propertyBlacklist, stream, after, before, paginate, properties} =
+          _.merge({}, FETCH_DEFAULT_OPTIONS, options) as FetchOptions
+      const storageProperties = makeStorageProperties(properties)
 
       const collection = _.last(parentCollections)
       if (collection && parentDaos.length > 0 && parentIds.length > 0) {
+        if (paginate || after != null || before != null) {
+          throw new PersistenceError(
+            'Paginating the items in collections is not supported.',
+            {entityTypeName: entityType.name}
+          )
+        }
         let results: Entity[] = []
         switch (collection.persistence) {
           case 'inverse-ref': {
@@ -334,7 +647,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         return stream ? Readable.from(results) : results
       } else {
         if (query !== undefined && query !== false) {
-          query = mapPaths(query, makePathTransformer(schema, !!draftBatchId))
+          query = mapQueryPaths(query, makePathTransformer(schema, !!draftBatchId))
         }
         if (query !== undefined && query !== false) {
           if (draftBatchId) {
@@ -356,7 +669,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         }
 
         if (order != null) {
-          order = mapPaths(order, makePathTransformer(schema, !!draftBatchId))
+          order = mapQueryPaths(order, makePathTransformer(schema, !!draftBatchId))
           if (draftBatchId) {
             // order = mapPaths(order, (path) => (path == '_id' ? path : `draft.${path}`))
             /* order = _.map(order, orderElement => {
@@ -369,7 +682,18 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
           }
         }
 
-        const itemsOrStreamQuery = await rawDao.fetch(query, {client, order, offset, limit, propertyBlacklist, stream})
+        const itemsOrStreamQuery = await rawDao.fetch(query, {
+          client,
+          order,
+          offset,
+          limit,
+          propertyBlacklist,
+          properties: storageProperties,
+          stream,
+          after,
+          before,
+          paginate
+        })
         if (draftBatchId) {
           if (fetchResultsIsStream(itemsOrStreamQuery)) {
             const unwrapDrafts = new Transform({
@@ -378,6 +702,8 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
             })
             return {run: itemsOrStreamQuery.run, stream: itemsOrStreamQuery.stream.pipe(unwrapDrafts)}
             // return itemsOrStreamQuery.pipe(unwrapDrafts)
+          } else if (fetchResultsIsPage(itemsOrStreamQuery)) {
+            return {...itemsOrStreamQuery, items: itemsOrStreamQuery.items.map((item) => unwrapDraft(item))}
           } else {
             return itemsOrStreamQuery.map((item) => unwrapDraft(item))
           }
@@ -406,10 +732,17 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         parentIds: string[] = [],
         options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS
     ) {
-      let {client, order, offset, limit, propertyBlacklist, stream} = _.merge({}, FETCH_DEFAULT_OPTIONS, options) as
-          FetchOptions
+      let {client, order, offset, limit, propertyBlacklist, stream, after, before, paginate, properties} =
+          _.merge({}, FETCH_DEFAULT_OPTIONS, options) as FetchOptions
+      const storageProperties = makeStorageProperties(properties)
       const collection = _.last(parentCollections)
       if (collection && parentDaos.length > 0 && parentIds.length > 0) {
+        if (paginate || after != null || before != null) {
+          throw new PersistenceError(
+            'Paginating the items in collections is not supported.',
+            {entityTypeName: entityType.name}
+          )
+        }
         switch (collection.persistence) {
           case 'inverse-ref': {
             // TODO Use the schema's foreign key path instead of having one in the REST collection config.
@@ -423,7 +756,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
             } else {
               const collectionMembers = await rawDao.fetch({
                 l: {path: `${collection.foreignKeyPath}.$ref`}, r: {constant: parent._id}
-              }, {client, order, offset, limit, propertyBlacklist}) as Entity[]
+              }, {client, order, offset, limit, propertyBlacklist, properties: storageProperties}) as Entity[]
               return collectionMembers
               // TODO Apply order
               // TODO Apply limit
@@ -439,6 +772,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
                 client,
                 limit,
                 propertyBlacklist,
+                properties: storageProperties,
                 order,
                 offset
               })
@@ -472,7 +806,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         }
 
         if (order != null) {
-          order = mapPaths(order, makePathTransformer(schema, !!draftBatchId))
+          order = mapQueryPaths(order, makePathTransformer(schema, !!draftBatchId))
           if (draftBatchId) {
             // order = mapPaths(order, (path) => (path == '_id' ? path : `draft.${path}`))
             /* order = _.map(order, orderElement => {
@@ -485,9 +819,21 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
           }
         }
 
+        const rawFetchOptions = {
+          client,
+          order,
+          offset,
+          limit,
+          propertyBlacklist,
+          properties: storageProperties,
+          stream,
+          after,
+          before,
+          paginate
+        }
         const itemsOrStreamQuery = query ?
-            await rawDao.fetch(query, {client, order, offset, limit, propertyBlacklist, stream})
-            : await rawDao.fetchAll({client, order, offset, limit, propertyBlacklist, stream})
+            await rawDao.fetch(query, rawFetchOptions)
+            : await rawDao.fetchAll(rawFetchOptions)
         if (draftBatchId) {
           if (fetchResultsIsStream(itemsOrStreamQuery)) {
             const unwrapDrafts = new Transform({
@@ -496,6 +842,8 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
             })
             return {run: itemsOrStreamQuery.run, stream: itemsOrStreamQuery.stream.pipe(unwrapDrafts)}
             // return itemsOrStreamQuery.pipe(unwrapDrafts)
+          } else if (fetchResultsIsPage(itemsOrStreamQuery)) {
+            return {...itemsOrStreamQuery, items: itemsOrStreamQuery.items.map((item) => unwrapDraft(item))}
           } else if (fetchResultsIsArray(itemsOrStreamQuery)) {
             return itemsOrStreamQuery.map((item: Entity) => unwrapDraft(item))
           }
@@ -1031,12 +1379,12 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
     },
 
     // No support for parent IDs
-    insertMultipleItems: async function(items: Entity[]) {
+    insertMultipleItems: async function(items: Entity[], {client = undefined}: {client?: Client} = {}) {
       if (items.length > 0) {
         if (draftBatchId) {
           items = items.map((item) => wrapDraft(item))
         }
-        await rawDao.insertMultipleItems(items)
+        await rawDao.insertMultipleItems(items, {client})
       }
     },
 
@@ -1048,11 +1396,151 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
       }
     },
 
-    update: async function(item: Entity, parentIds: Id[] = [], {client = null} = {}) {
+    /**
+     * Insert an item, or update the existing item that has the same values at the conflict target paths.
+     *
+     * Parent IDs are not supported, so only top-level items can be upserted.
+     *
+     * @param item The item to upsert.
+     * @param parentIds Not supported; must be empty.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.conflictOn Paths of properties (_id or mapped properties) whose values identify an existing item.
+     *   They must be covered by a unique index or constraint. The default is ['_id'].
+     * @param options.user The user making the change, which is recorded in the item's history.
+     * @return The stored item and a flag indicating whether it was inserted.
+     */
+    upsert: async function(
+        item: Entity,
+        parentIds: Id[] = [],
+        {
+          client = undefined,
+          conflictOn = ['_id'],
+          user = undefined
+        }: {client?: Client, conflictOn?: PropertyPathStr[], user?: User} = {}
+    ): Promise<UpsertResult> {
+      if (parentIds.length > 0) {
+        throw new PersistenceError(
+          'Upserting items in collections is not supported.',
+          {entityTypeName: entityType.name}
+        )
+      }
+      const [result] = await upsertItems(this, [item], conflictOn, client, user)
+      return result
+    },
+
+    /**
+     * Upsert multiple top-level items in one statement.
+     *
+     * @param items The items to upsert. No two may have the same values at the conflict target paths.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.conflictOn Paths of properties whose values identify an existing item. The default is ['_id'].
+     * @param options.user The user making the change, which is recorded in item histories.
+     * @return The stored items and flags indicating whether they were inserted, in the order of the items.
+     */
+    upsertMultipleItems: async function(
+        items: Entity[],
+        {
+          client = undefined,
+          conflictOn = ['_id'],
+          user = undefined
+        }: {client?: Client, conflictOn?: PropertyPathStr[], user?: User} = {}
+    ): Promise<UpsertResult[]> {
+      return await upsertItems(this, [...items], conflictOn, client, user)
+    },
+
+    /**
+     * Apply a JSON patch (RFC 6902) or JSON merge patch (RFC 7396) to a top-level item.
+     *
+     * The patch is applied by the database, so that concurrent writers that change different properties do not
+     * overwrite each other's changes. Update callbacks receive the item as stored before the patch and as it will be
+     * stored after; if a before-update callback changes the item, its changes are stored too. The item's history is
+     * recorded as for an update, in the same transaction as the patch.
+     *
+     * @param id The item's ID.
+     * @param patch The JSON patch or JSON merge patch. JSON patch paths are JSON pointers into the item.
+     * @param parentIds Not supported; must be empty.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.user The user making the change, which is recorded in the item's history.
+     * @return The patched item, or null if there is no such item.
+     * @throws PersistenceError if the patch cannot be applied, for instance because a test operation fails.
+     */
+    patch: async function(
+        id: Id,
+        patch: JsonPatch | JsonMergePatch,
+        parentIds: Id[] = [],
+        {client = undefined, user = undefined}: {client?: Client, user?: User} = {}
+    ): Promise<Entity | null> {
+      if (parentIds.length > 0) {
+        throw new PersistenceError(
+          'Patching items in collections is not supported.',
+          {entityTypeName: entityType.name}
+        )
+      }
+      const transactionResult = await withTransaction(async (transactionClient) => {
+        const originalItem: Entity | null = await this.fetchOneById(id, [], {client: transactionClient})
+        if (!originalItem) {
+          return null
+        }
+        const patchedItem = isJsonPatch(patch) ? applyPatch(originalItem, patch) : applyMergePatch(originalItem, patch)
+        const item = _.cloneDeep(patchedItem)
+        for (const callback of dbCallbacks.beforeUpdate || []) {
+          await callback(originalItem, item, {dao: this, draftBatchId})
+        }
+        for (const callback of dbCallbacks.beforeUpdateWithoutOriginal || []) {
+          await callback(item, {dao: this, draftBatchId})
+        }
+
+        // Apply any changes made by callbacks after the patch. They are a JSON patch relative to the patched item, so
+        // like the patch itself they leave other properties as concurrent writers may have stored them.
+        const callbackChanges = diff(patchedItem, item)
+        const trackChange = await shouldTrackUpdate(originalItem, item)
+
+        const makeStorageJsonPatch = (jsonPatch: JsonPatch): JsonPatch => draftBatchId ?
+            jsonPatch.map((operation) => ({
+              ...operation,
+              path: `/draft${operation.path}`,
+              ...('from' in operation) ? {from: `/draft${operation.from}`} : {}
+            }))
+            : jsonPatch
+        const storagePatch = isJsonPatch(patch) ? makeStorageJsonPatch(patch) : (draftBatchId ? {draft: patch} : patch)
+        const patchResult = await rawDao.patch(id, storagePatch, {
+          client: transactionClient,
+          additionalPatch: makeStorageJsonPatch(callbackChanges)
+        })
+        if (!patchResult) {
+          return null
+        }
+        if (trackChange) {
+          await recordItemVersion(originalItem, 'update', {client: transactionClient, user})
+        }
+        return {originalItem, patchResult}
+      }, {client})
+      if (!transactionResult) {
+        return null
+      }
+      const {originalItem, patchResult} = transactionResult
+      const patchedResult: Entity = draftBatchId ? unwrapDraft(patchResult) : patchResult
+      for (const callback of dbCallbacks.afterUpdateWithoutOriginal || []) {
+        await callback(patchedResult, {dao: this, draftBatchId})
+      }
+      for (const callback of dbCallbacks.afterUpdate || []) {
+        await callback(originalItem, patchedResult, {dao: this, draftBatchId})
+      }
+      return patchedResult
+    },
+
+    update: async function(
+        item: Entity,
+        parentIds: Id[] = [],
+        {client = null, user = undefined}: {client?: Client | null, user?: User} = {}
+    ) {
       item = this.sanitizeItem(item)
-      let originalItem = null
+      let originalItem: any = null
       if ([...dbCallbacks.beforeUpdate || [], ...dbCallbacks.afterUpdate || []].length > 0) {
-        originalItem = await this.fetchOneById(item._id)
+        originalItem = await this.fetchOneById(item._id, [], {client})
       }
       for (const callback of dbCallbacks.beforeUpdate || []) {
         await callback(originalItem, item, {dao: this, draftBatchId})
@@ -1078,6 +1566,9 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
               _.set(item, collection.foreignKeyPath, {$ref: parent._id})
               const wrappedItem = draftBatchId ? wrapDraft(item) : item
               const updateResult = await rawDao.update(wrappedItem, {client})
+              if (!updateResult) {
+                return null
+              }
               item = draftBatchId ? unwrapDraft(updateResult) : updateResult
             }
           }
@@ -1086,6 +1577,9 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
             // TODO First check that the item belongs to the collection.
             const wrappedItem = draftBatchId ? wrapDraft(item) : item
             const updateResult = await rawDao.update(wrappedItem, {client})
+            if (!updateResult) {
+              return null
+            }
             item = draftBatchId ? unwrapDraft(updateResult) : updateResult
             break
           }
@@ -1110,28 +1604,30 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
       } else {
         const wrappedItem = draftBatchId ? wrapDraft(item) : item
 
-        if (!draftBatchId && mayTrackChanges) {
-          let trackChange = entityType.history?.trackChange
+        // Record the item's version in the same transaction as the update, and only if the update succeeds.
+        const updateResult = await withTransaction(async (transactionClient) => {
+          let trackChange = (!draftBatchId && mayTrackChanges) ? entityType.history?.trackChange : false
           if (_.isFunction(trackChange)) {
             if (originalItem == null) {
-              originalItem = await this.fetchOneById(item._id)
+              originalItem = await this.fetchOneById(item._id, [], {client: transactionClient})
             }
             trackChange = await trackChange(originalItem, item)
           }
-          if (trackChange) {
-            if (originalItem == null) {
-              originalItem = await this.fetchOneById(item._id)
-              if (_.isEqual(originalItem, item)) {
-                trackChange = false
-              }
-            }
-            if (trackChange) {
-              await recordItemVersion(originalItem, client)
+          if (trackChange && originalItem == null) {
+            originalItem = await this.fetchOneById(item._id, [], {client: transactionClient})
+            if (_.isEqual(originalItem, item)) {
+              trackChange = false
             }
           }
+          const result = await rawDao.update(wrappedItem, {client: transactionClient})
+          if (result && trackChange && originalItem) {
+            await recordItemVersion(originalItem, 'update', {client: transactionClient, user})
+          }
+          return result
+        }, {client: client || undefined})
+        if (!updateResult) {
+          return null
         }
-
-        const updateResult = await rawDao.update(wrappedItem, {client})
         item = draftBatchId ? unwrapDraft(updateResult) : updateResult
       }
       for (const callback of dbCallbacks.afterUpdateWithoutOriginal || []) {
@@ -1144,12 +1640,87 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
     },
 
     // No support for parent IDs
-    updateMultipleItems: async function(items: Entity[]) {
-      await rawDao.updateMultipleItems(items)
+    updateMultipleItems: async function(items: Entity[], {client = undefined}: {client?: Client} = {}) {
+      await rawDao.updateMultipleItems(items, {client})
+    },
+
+    /**
+     * Set or remove properties of all the top-level items that match a query, in one UPDATE statement.
+     *
+     * Before-update callbacks are not called. If after-update callbacks are registered, or if changes to items of this
+     * type are recorded in item histories, the matching items are fetched before and after the update. Item versions
+     * are recorded in the same transaction as the update, for the items that it changed.
+     *
+     * @param query The query that selects items to update.
+     * @param changes The changes to make.
+     * @param changes.set New property values, by property path.
+     * @param changes.unset Paths of properties to remove.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.user The user making the change, which is recorded in item histories.
+     * @return The IDs of the updated items.
+     */
+    updateWhere: async function(
+        query: QueryClause,
+        changes: PropertyChanges,
+        {client = undefined, user = undefined}: {client?: Client, user?: User} = {}
+    ): Promise<Id[]> {
+      const storageQuery = makeStorageQuery(query)
+      const storageChanges: PropertyChanges = {
+        set: _.mapKeys(changes.set || {}, (_value, path) => makeStoragePath(path)),
+        unset: (changes.unset || []).map(makeStoragePath)
+      }
+      const hasAfterUpdateCallbacks =
+          [...dbCallbacks.afterUpdate || [], ...dbCallbacks.afterUpdateWithoutOriginal || []].length > 0
+      const originalItemsById: {[id: Id]: Entity} = {}
+      const updatedIds: Id[] = await withTransaction(async (transactionClient) => {
+        const itemsToTrack: Entity[] = []
+        if (hasAfterUpdateCallbacks || (!draftBatchId && mayTrackChanges && entityType.history?.trackChange)) {
+          const storedItems = await rawDao.fetch(storageQuery, {client: transactionClient}) as Entity[]
+          for (const storedItem of storedItems) {
+            const originalItem = draftBatchId ? unwrapDraft(storedItem) : storedItem
+            originalItemsById[originalItem._id] = originalItem
+            const item = _.cloneDeep(originalItem)
+            for (const [path, value] of Object.entries(changes.set || {})) {
+              _.set(item, path, value)
+            }
+            for (const path of changes.unset || []) {
+              _.unset(item, path)
+            }
+            if (await shouldTrackUpdate(originalItem, item)) {
+              itemsToTrack.push(originalItem)
+            }
+          }
+        }
+        const ids: Id[] = await rawDao.updateWhere(storageQuery, storageChanges, {client: transactionClient})
+        for (const originalItem of itemsToTrack.filter((item) => ids.includes(item._id))) {
+          await recordItemVersion(originalItem, 'update', {client: transactionClient, user})
+        }
+        return ids
+      }, {client})
+
+      if (hasAfterUpdateCallbacks && updatedIds.length > 0) {
+        const updatedItems = await rawDao.fetchById(updatedIds, {client}) as Entity[]
+        for (const updatedItem of updatedItems) {
+          const item = draftBatchId ? unwrapDraft(updatedItem) : updatedItem
+          for (const callback of dbCallbacks.afterUpdateWithoutOriginal || []) {
+            await callback(item, {dao: this, draftBatchId})
+          }
+          for (const callback of dbCallbacks.afterUpdate || []) {
+            // An item is missing from the original items only if it came to match the query during the update.
+            await callback(originalItemsById[item._id] || null, item, {dao: this, draftBatchId})
+          }
+        }
+      }
+      return updatedIds
     },
 
     // For now we just support property-equality queries with one or more properties.
-    delete: async function(query?: QueryClause, parentIds: Id[] = [], {client = null} = {}) {
+    delete: async function(
+        query?: QueryClause,
+        parentIds: Id[] = [],
+        {client = undefined, user = undefined}: {client?: Client, user?: User} = {}
+    ) {
       const collection = _.last(parentCollections)
       if (collection && parentDaos.length > 0 && parentIds.length > 0) {
         switch (collection.persistence) {
@@ -1171,20 +1742,36 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         }
       } else {
         let idsToDelete: Id[] = []
-        if (
-          (dbCallbacks.beforeDelete || []).length > 0
-          || (dbCallbacks.afterDelete || []).length > 0
-        ) {
-          const itemsToDelete = await rawDao.fetch(query, {client}) as FetchResults
+        // Record deleted items' versions in the same transaction as the deletion, and only if it succeeds.
+        const deletedItems: Entity[] = await withTransaction(async (transactionClient) => {
+          let itemsToDelete: Entity[] = []
+          if (
+            (dbCallbacks.beforeDelete || []).length > 0
+            || (dbCallbacks.afterDelete || []).length > 0
+            || (!draftBatchId && mayTrackChanges && entityType.history?.trackChange)
+          ) {
+            itemsToDelete = await rawDao.fetch(query, {client: transactionClient}) as FetchResults
+          }
           idsToDelete = itemsToDelete.map((item) => item._id)
-        }
-        for (const id of idsToDelete) {
-          for (const callback of dbCallbacks.beforeDelete || []) {
-            await callback(id, {dao: this})
+          for (const id of idsToDelete) {
+            for (const callback of dbCallbacks.beforeDelete || []) {
+              await callback(id, {dao: this})
+            }
+          }
+          const itemsToTrack: Entity[] = []
+          for (const item of itemsToDelete) {
+            if (await shouldTrackDeletion(item)) {
+              itemsToTrack.push(item)
+            }
           }
-        }
 
-        await rawDao.delete(query, {client})
+          const result: Entity[] = await rawDao.delete(query, {client: transactionClient, user})
+          const deletedIds = result.map((item) => item._id)
+          for (const item of itemsToTrack.filter((item) => deletedIds.includes(item._id))) {
+            await recordItemVersion(item, 'delete', {client: transactionClient, user})
+          }
+          return result
+        }, {client})
 
         for (const id of idsToDelete) {
           for (const callback of dbCallbacks.afterDelete || []) {
@@ -1192,17 +1779,15 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
           }
         }
 
-        /*
-        if (rows.length == 1) {
-          return {_id: rows[0].id, ...rows[0].data}
-        } else {
-          return null
-        }
-        */
+        return draftBatchId ? deletedItems.map(unwrapDraft) : deletedItems
       }
     },
 
-    deleteOneById: async function(id: Id, parentIds = [], {client = null} = {}) {
+    deleteOneById: async function(
+        id: Id,
+        parentIds = [],
+        {client = undefined, user = undefined}: {client?: Client, user?: User} = {}
+    ) {
       const collection = _.last(parentCollections)
       if (collection && parentDaos.length > 0 && parentIds.length > 0) {
         switch (collection.persistence) {
@@ -1221,7 +1806,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
               for (const callback of dbCallbacks.beforeDelete || []) {
                 await callback(id, {dao: this})
               }
-              await rawDao.deleteOneById(id, {client})
+              await rawDao.deleteOneById(id, {client, user})
               for (const callback of dbCallbacks.afterDelete || []) {
                 await callback(id, {dao: this})
               }
@@ -1233,7 +1818,7 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
             for (const callback of dbCallbacks.beforeDelete || []) {
               await callback(id, {dao: this})
             }
-            await rawDao.deleteOneById(id, {client})
+            await rawDao.deleteOneById(id, {client, user})
             for (const callback of dbCallbacks.afterDelete || []) {
               await callback(id, {dao: this})
             }
@@ -1268,11 +1853,261 @@ const makeDao = async function(entityType: EntityType, options: DaoOptionsInput
         for (const callback of dbCallbacks.beforeDelete || []) {
           await callback(id, {dao: this})
         }
-        await rawDao.deleteOneById(id, {client})
+        // Record the item's version in the same transaction as the deletion, and only if it succeeds.
+        const deletedItem: Entity | null = await withTransaction(async (transactionClient) => {
+          let trackDeletion = false
+          let item: Entity | null = null
+          if (!draftBatchId && mayTrackChanges && entityType.history?.trackChange) {
+            item = await this.fetchOneById(id, [], {client: transactionClient})
+            trackDeletion = !!item && await shouldTrackDeletion(item)
+          }
+          const result: Entity | null = await rawDao.deleteOneById(id, {client: transactionClient, user})
+          if (result && trackDeletion && item) {
+            await recordItemVersion(item, 'delete', {client: transactionClient, user})
+          }
+          return result
+        }, {client})
         for (const callback of dbCallbacks.afterDelete || []) {
           await callback(id, {dao: this})
         }
+        return (draftBatchId && deletedItem) ? unwrapDraft(deletedItem) : deletedItem
+      }
+    },
+
+    /**
+     * Import items from a stream, using PostgreSQL's COPY statement for high throughput.
+     *
+     * Transient properties are removed from each item before it is stored. Database callbacks are not run, and changes
+     * are not recorded in item histories. Drafts and collections of parent items are not supported.
+     *
+     * @param source A readable stream of items, encoded as specified by options.format.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.format The encoding of the source data: 'ndjson' (the default), 'csv' or 'objects'.
+     * @param options.validate A function called with each item before it is stored. It should throw an error to reject
+     *   an item, which aborts the import.
+     * @param options.onProgress A function called periodically with the number of items imported so far.
+     * @param options.progressInterval The number of items between progress reports.
+     * @return The number of items imported.
+     */
+    importStream: async function(
+        source: Readable,
+        {
+          client = undefined,
+          format = undefined,
+          validate = undefined,
+          onProgress = undefined,
+          progressInterval = undefined
+        }: {
+          client?: Client,
+          format?: CopyFormat,
+          validate?: (item: Entity) => void | Promise<void>,
+          onProgress?: (progress: CopyProgress) => void,
+          progressInterval?: number
+        } = {}
+    ) {
+      if (draftBatchId) {
+        throw new PersistenceError('Importing drafts is not supported.', {entityTypeName: entityType.name})
+      }
+      return await rawDao.importStream(source, {
+        client,
+        format,
+        prepareItem: async (item: Entity) => {
+          const sanitizedItem = this.sanitizeItem(item)
+          if (validate) {
+            await validate(sanitizedItem)
+          }
+          return sanitizedItem
+        },
+        onProgress,
+        progressInterval
+      })
+    },
+
+    /**
+     * Export the items matching a query to a stream, using PostgreSQL's COPY statement for high throughput.
+     *
+     * Drafts are not supported.
+     *
+     * @param query The query that selects items to export. If undefined, all items are exported.
+     * @param options
+     * @param options.client A database client to use. While the stream is being read, it should not be used for other
+     *   queries.
+     * @param options.format The encoding of the exported data: 'ndjson' (the default) or 'csv'.
+     * @param options.onProgress A function called periodically with the number of items exported so far.
+     * @param options.progressInterval The number of items between progress reports.
+     * @return A readable stream of the exported data.
+     */
+    exportStream: async function(
+        query?: QueryClause,
+        {client = undefined, format = undefined, onProgress = undefined, progressInterval = undefined}: {
+          client?: Client,
+          format?: Exclude<CopyFormat, 'objects'>,
+          onProgress?: (progress: CopyProgress) => void,
+          progressInterval?: number
+        } = {}
+    ): Promise<Readable> {
+      if (draftBatchId) {
+        throw new PersistenceError('Exporting drafts is not supported.', {entityTypeName: entityType.name})
+      }
+      return await rawDao.exportStream(makeStorageQuery(query), {client, format, onProgress, progressInterval})
+    },
+
+    /**
+     * Fetch items that have been soft-deleted.
+     *
+     * Collections of parent items are not supported.
+     *
+     * @param query A query that further restricts the deleted items to fetch.
+     * @param options Fetch options.
+     * @return The deleted items matching the query.
+     */
+    fetchDeleted: async function(query?: QueryClause, options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS) {
+      if (!rawDao.entityType.mapping?.softDelete) {
+        throw new PersistenceError(
+          `fetchDeleted failed because type "${rawDao.entityType.name}" does not use soft deletes.`,
+          {entityTypeName: rawDao.entityType.name}
+        )
+      }
+      const {client, order, offset, limit, propertyBlacklist} = _.merge({}, FETCH_DEFAULT_OPTIONS, options) as
+          FetchOptions
+      const items = await rawDao.fetch(makeStorageQuery(query), {
+        client,
+        order: order ? mapQueryPaths(order, makePathTransformer(schema, !!draftBatchId)) : order,
+        offset,
+        limit,
+        propertyBlacklist,
+        deleted: 'only'
+      }) as FetchResults
+      return draftBatchId ? items.map((item) => unwrapDraft(item)) : items
+    },
+
+    /**
+     * Restore an item that has been soft-deleted.
+     *
+     * Collections of parent items are not supported.
+     *
+     * @param id The ID of the item to restore.
+     * @param parentIds Parent IDs, which must be empty.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The restored item, or null if there was no deleted item with this ID.
+     */
+    restore: async function(id: Id, parentIds: Id[] = [], {client = undefined}: {client?: Client} = {}) {
+      if (parentCollections.length > 0 && parentIds.length > 0) {
+        throw new PersistenceError('Restoring items in collections of parent items is not supported.')
+      }
+      const restored = await rawDao.restore(id, {client})
+      return restored ? await rawDao.fetchOneById(id, {client}) : null
+    },
+
+    /**
+     * Fetch the recorded versions of an item.
+     *
+     * Each version is a copy of the item as it was before an update or deletion. The item's current state is not
+     * included.
+     *
+     * @param id The item's ID.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The item's versions, from oldest to newest.
+     */
+    fetchHistory: async function(id: Id, {client = undefined}: {client?: Client} = {}): Promise<ItemVersion[]> {
+      if (!itemVersionsDao) {
+        throw new PersistenceError(
+          `Items of type "${entityType.name}" have no history.`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const versions = await itemVersionsDao.fetch({l: {path: 'item._id'}, r: {constant: id}}, [], {client}) as
+          ItemVersion[]
+      return _.sortBy(
+        versions.filter((version) => version.itemType == null || version.itemType == entityType.name),
+        (version) => version.timestamp || ''
+      )
+    },
+
+    /**
+     * Fetch an item as it was at a given time.
+     *
+     * This is the oldest recorded version that was replaced after the given time, or the current item if there is no
+     * such version. Since creation is not recorded, an item may be returned for a time before it was created.
+     *
+     * @param id The item's ID.
+     * @param timestamp The time, as a Date or an ISO 8601 string.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The item as it was at the given time, or null if it did not exist.
+     */
+    fetchVersionAt: async function(
+        id: Id,
+        timestamp: Date | string,
+        {client = undefined}: {client?: Client} = {}
+    ): Promise<Entity | null> {
+      const time = new Date(timestamp).toISOString()
+      const history: ItemVersion[] = await this.fetchHistory(id, {client})
+      const replacedVersion = history.find((version) => version.timestamp && version.timestamp > time)
+      return replacedVersion ? replacedVersion.item : await this.fetchOneById(id, [], {client})
+    },
+
+    /**
+     * Compare two versions of an item.
+     *
+     * @param id The item's ID.
+     * @param fromVersionId The ID of the older item version, or null to use the current item.
+     * @param toVersionId The ID of the newer item version, or null to use the current item.
+     * @param options
+     * @param options.client A database client to use.
+     * @return A JSON patch that transforms the first version into the second.
+     */
+    diffVersions: async function(
+        id: Id,
+        fromVersionId: Id | null,
+        toVersionId: Id | null,
+        {client = undefined}: {client?: Client} = {}
+    ): Promise<JsonPatch> {
+      const fromItem = fromVersionId ?
+          (await fetchItemVersion(id, fromVersionId, client)).item
+          : await this.fetchOneById(id, [], {client})
+      const toItem = toVersionId ?
+          (await fetchItemVersion(id, toVersionId, client)).item
+          : await this.fetchOneById(id, [], {client})
+      return diff(fromItem, toItem)
+    },
+
+    /**
+     * Revert an item to a recorded version.
+     *
+     * The current item is replaced by the recorded version, so that the change is itself recorded in the item's
+     * history. If the item has been deleted, it is restored or reinserted.
+     *
+     * @param id The item's ID.
+     * @param versionId The ID of the item version to revert to.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.user The user making the change. If absent, the user is taken from the CLS context.
+     * @return The reverted item.
+     */
+    revertTo: async function(
+        id: Id,
+        versionId: Id,
+        {client = undefined, user = undefined}: {client?: Client, user?: User} = {}
+    ) {
+      const version = await fetchItemVersion(id, versionId, client)
+      const item = _.cloneDeep(version.item)
+      let currentItem = await this.fetchOneById(id, [], {client})
+      if (!currentItem && entityType.mapping?.softDelete) {
+        currentItem = await this.restore(id, [], {client})
+      }
+      if (!currentItem) {
+        return await this.insert(item, [], {client})
+      }
+      // Revert on top of the current version, so that optimistic concurrency control does not reject the update.
+      const versionProperty = entityType.mapping?.versionProperty
+      if (versionProperty) {
+        _.set(item, versionProperty, _.get(currentItem, versionProperty))
       }
+      return await this.update(item, [], {client, user})
     }
   }
 }
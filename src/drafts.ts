@@ -0,0 +1,146 @@
+/**
+ * Draft batch lifecycle operations
+ *
+ * A draft batch is a set of drafts that share a draft batch ID. Each draft wraps an item of some entity type and is
+ * stored as an item of the draft entity type, whose name is given by the drafts.entityType configuration setting.
+ * Publishing a batch writes its items to their own entity types' tables; discarding a batch deletes its drafts.
+ *
+ * @module lib/drafts
+ */
+
+import _ from 'lodash'
+
+import makeDao from './dao.js'
+import {Entity, EntityType, getEntityType, Id} from './entity-types.js'
+import {PersistenceError} from './errors.js'
+import {docorm} from './index.js'
+import logger from './logger.js'
+import * as db from './postgresql/db.js'
+import {Client} from './postgresql/db.js'
+import makeRawDao from './postgresql/raw-dao.js'
+import {QueryClause} from './queries.js'
+
+/** A summary of one draft batch. */
+export interface DraftBatchSummary {
+  draftBatchId: Id
+  /** The number of drafts in the batch, by entity type name. */
+  counts: {[entityTypeName: string]: number}
+  /** The total number of drafts in the batch. */
+  total: number
+}
+
+/** The number of items published from a draft batch, by entity type name and kind of write. */
+export interface DraftBatchPublicationResult {
+  inserted: {[entityTypeName: string]: number}
+  updated: {[entityTypeName: string]: number}
+}
+
+function getDraftEntityType(): EntityType {
+  const {enabled, entityType: entityTypeName} = docorm.config.drafts
+  const entityType = enabled ? getEntityType(entityTypeName, {required: false}) : undefined
+  if (!entityType) {
+    throw new PersistenceError('Drafts are not enabled.', {draftEntityTypeName: entityTypeName})
+  }
+  return entityType
+}
+
+function makeDraftBatchQuery(draftBatchId: Id): QueryClause {
+  return {l: {path: 'draftBatchId'}, r: {constant: draftBatchId}}
+}
+
+/**
+ * Publish a draft batch.
+ *
+ * Each drafted item is inserted into, or updated in, its own entity type's table, using a DAO so that database
+ * callbacks run and changes are recorded in item histories. The batch's drafts are then deleted. All of this happens in
+ * one transaction (nested in the current transaction, if there is one); if any item fails to be published, nothing is
+ * changed.
+ *
+ * An item that has been soft-deleted since it was drafted is restored and then updated with the draft's content.
+ *
+ * @param draftBatchId The ID of the draft batch to publish.
+ * @return The numbers of items inserted and updated, by entity type name.
+ */
+export async function publishDraftBatch(draftBatchId: Id): Promise<DraftBatchPublicationResult> {
+  const draftsRawDao = makeRawDao(getDraftEntityType())
+  const result: DraftBatchPublicationResult = {inserted: {}, updated: {}}
+  await db.withTransaction(async (client) => {
+    const drafts = await draftsRawDao.fetch(makeDraftBatchQuery(draftBatchId), {client}) as Entity[]
+    const draftsByEntityType = _.groupBy(drafts, (draft) => draft.draft?._type)
+    for (const [entityTypeName, entityTypeDrafts] of Object.entries(draftsByEntityType)) {
+      const entityType = getEntityType(entityTypeName, {required: false})
+      if (!entityType) {
+        throw new PersistenceError(
+          'A draft batch contains an item of an unknown entity type.',
+          {draftBatchId, entityTypeName}
+        )
+      }
+      const dao = await makeDao(entityType)
+      for (const draft of entityTypeDrafts) {
+        const item: Entity = {...draft.draft, _id: draft._id, _type: entityTypeName}
+        let existingItem = await dao.fetchOneById(item._id, [], {client})
+        if (!existingItem && entityType.mapping?.softDelete) {
+          existingItem = await dao.restore(item._id, [], {client})
+        }
+        if (existingItem) {
+          await dao.update(item, [], {client})
+          result.updated[entityTypeName] = (result.updated[entityTypeName] || 0) + 1
+        } else {
+          await dao.insert(item, [], {client})
+          result.inserted[entityTypeName] = (result.inserted[entityTypeName] || 0) + 1
+        }
+      }
+    }
+    if (drafts.length > 0) {
+      await draftsRawDao.delete(makeDraftBatchQuery(draftBatchId), {client})
+    }
+  })
+  logger().info(`Published draft batch ${draftBatchId}`, {draftBatchId, ...result})
+  return result
+}
+
+/**
+ * Discard a draft batch by deleting all its drafts.
+ *
+ * @param draftBatchId The ID of the draft batch to discard.
+ * @param options
+ * @param options.client A database client to use.
+ * @return The number of drafts deleted.
+ */
+export async function discardDraftBatch(draftBatchId: Id, options: {client?: Client} = {}): Promise<number> {
+  const draftsRawDao = makeRawDao(getDraftEntityType())
+  const query = makeDraftBatchQuery(draftBatchId)
+  const count = Number(await draftsRawDao.count(query, {client: options.client}))
+  if (count > 0) {
+    await draftsRawDao.delete(query, {client: options.client})
+  }
+  return count
+}
+
+/**
+ * List the draft batches that have drafts, with the number of drafts of each entity type.
+ *
+ * @param options
+ * @param options.client A database client to use.
+ * @return Summaries of all draft batches, ordered by draft batch ID.
+ */
+export async function listDraftBatches(options: {client?: Client} = {}): Promise<DraftBatchSummary[]> {
+  const draftsRawDao = makeRawDao(getDraftEntityType())
+  const rows = await draftsRawDao.aggregate(undefined, {
+    client: options.client,
+    groupBy: [{path: 'draftBatchId'}, {path: 'draft._type'}],
+    measures: [{name: 'count', function: 'count'}] as const
+  })
+  const batches: DraftBatchSummary[] = []
+  for (const row of rows) {
+    const draftBatchId = row.group['draftBatchId']
+    let batch = _.last(batches)
+    if (!batch || batch.draftBatchId != draftBatchId) {
+      batch = {draftBatchId, counts: {}, total: 0}
+      batches.push(batch)
+    }
+    batch.counts[row.group['draft._type']] = row.measures.count
+    batch.total += row.measures.count
+  }
+  return batches
+}
@@ -40,6 +40,28 @@ export interface User {
   initials: string
 }
 
+export type ItemVersionOperation = 'update' | 'delete'
+
+/**
+ * A stored copy of an item as it was before an update or deletion.
+ *
+ * Versions recorded by earlier releases have only the item property.
+ */
+export interface ItemVersion extends Entity {
+  /** The item's state before the change. */
+  item: Entity
+  /** The name of the item's entity type. */
+  itemType?: string
+  /** The kind of change that replaced this version. */
+  operation?: ItemVersionOperation
+  /** The time of the change, as an ISO 8601 string. */
+  timestamp?: string
+  /** The ID of the user who made the change, if known. */
+  userId?: string
+  /** The ID of the operation during which the change was made, if known. */
+  operationId?: string
+}
+
 export interface DeleteDaoCallbackOptions {
   dao: Dao
 }
@@ -123,13 +145,30 @@ export interface EntityTypeDefinition {
     idColumn?: string
     jsonColumn?: string
     readonly?: boolean
+    /** If true, properties mapped to columns are stored only in their columns and are omitted from the JSON column. */
+    stripMappedProperties?: boolean
+    /**
+     * An integer property used for optimistic concurrency control. If set, updates only succeed when the stored
+     * version matches the item's version, and each insert or update increments it.
+     */
+    versionProperty?: PropertyPathStr
+    /**
+     * If set, deleting an item marks it as deleted instead of removing its row. Deleted items are excluded from
+     * queries unless explicitly requested.
+     */
+    softDelete?: boolean | Partial<SoftDeleteMapping>
+    indexes?: IndexDefinition[]
   }
   import?: {
     propertyMappings?: []
   }
   dbCallbacks?: DbCallbacks
   history?: {
-    trackChange?: boolean | ((oldItem: Entity, newItem: Entity) => boolean | Promise<boolean>)
+    /**
+     * Whether to record the previous version of an item when it is updated or deleted. If this is a function, it is
+     * called with the original item and the new item, which is null if the item is being deleted.
+     */
+    trackChange?: boolean | ((oldItem: Entity, newItem: Entity | null) => boolean | Promise<boolean>)
   }
   derivedProperties?: {
     [propertyName: string]: (item: Entity) => any
@@ -153,15 +192,44 @@ export interface EntityTypeDefinition {
 
 export interface PropertyMapping {
   column: string
+  /** The SQL type of the column, taken from the schema's mapping.columnType or inferred from its JSON type. */
+  columnType: string
   propertyPath: PropertyPathStr
 }
 
+export interface IndexDefinition {
+  /** The index name. If omitted, a name is generated from the table name and property paths. */
+  name?: string
+  /**
+   * Property paths to index, in order. A GIN index with no properties indexes the entire JSON column.
+   */
+  properties?: PropertyPathStr[]
+  unique?: boolean
+  method?: 'btree' | 'gin'
+}
+
+export interface SoftDeleteMapping {
+  /** The property that records when an item was deleted. Items are deleted if and only if this is non-null. */
+  deletedAtProperty: PropertyPathStr
+  /** The property that records the ID of the user who deleted an item. */
+  deletedByProperty: PropertyPathStr
+}
+
+const DEFAULT_SOFT_DELETE_MAPPING: SoftDeleteMapping = {
+  deletedAtProperty: '_deletedAt',
+  deletedByProperty: '_deletedBy'
+}
+
 export interface EntityTypeMapping {
   table: string
   idColumn: string
   jsonColumn?: string
   propertyMappings: PropertyMapping[]
+  indexes: IndexDefinition[]
   readonly: boolean
+  stripMappedProperties: boolean
+  versionProperty?: PropertyPathStr
+  softDelete?: SoftDeleteMapping
 }
 
 export interface EntityType extends Omit<EntityTypeDefinition, 'abstract' | 'parent'> {
@@ -356,6 +424,43 @@ const INITIAL_BUILD_COLUMN_MAP_STATE = {
   knownSubschemas: {}
 }
 
+/**
+ * Determine the SQL type of a column mapped to a property.
+ *
+ * An explicit `mapping.columnType` in the property schema takes precedence. Otherwise the type is inferred from the
+ * property's JSON type and format.
+ *
+ * @param schema The property schema.
+ * @return The SQL column type.
+ */
+function columnTypeForSchema(schema: Schema): string {
+  const explicitColumnType: string | undefined = (schema as any)?.mapping?.columnType
+  if (explicitColumnType) {
+    return explicitColumnType
+  }
+  switch ((schema as any).type) {
+    case 'string':
+      switch ((schema as any).format) {
+        case 'date':
+          return 'date'
+        case 'date-time':
+          return 'timestamptz'
+        case 'uuid':
+          return 'uuid'
+        default:
+          return 'text'
+      }
+    case 'integer':
+      return 'bigint'
+    case 'number':
+      return 'double precision'
+    case 'boolean':
+      return 'boolean'
+    default:
+      return 'jsonb'
+  }
+}
+
 function buildPropertyMappings(
     schema: Schema,
     // schemaType: SchemaType = 'model',
@@ -393,7 +498,11 @@ function buildPropertyMappings(
       mappings = buildPropertyMappings(subschema, currentPath)
     } else if ((schema as any).storage == 'ref') {
       if (column) {
-        mappings.push({propertyPath: arrayToDottedPath([...currentPath, '$ref']), column})
+        mappings.push({
+          propertyPath: arrayToDottedPath([...currentPath, '$ref']),
+          column,
+          columnType: (schema as any).mapping?.columnType || 'uuid'
+        })
       }
     }
   } else {
@@ -414,13 +523,20 @@ function buildPropertyMappings(
         break
       default:
         if (column) {
-          mappings.push({propertyPath: arrayToDottedPath(currentPath), column})
+          mappings.push({propertyPath: arrayToDottedPath(currentPath), column, columnType: columnTypeForSchema(schema)})
         }
     }
   }
   return mappings
 }
 
+function makeSoftDeleteMapping(softDelete: boolean | Partial<SoftDeleteMapping> | undefined) {
+  if (!softDelete) {
+    return undefined
+  }
+  return {...DEFAULT_SOFT_DELETE_MAPPING, ...(_.isObject(softDelete) ? softDelete : {})}
+}
+
 export function makeUnproxiedEntityType(definition: EntityTypeDefinition): EntityType {
   const parentEntityType: EntityType | undefined = definition.parent ? getEntityType(definition.parent) : undefined
   const schema = docorm.config.schemaRegistry?.getSchema(definition.schemaId)
@@ -451,7 +567,11 @@ export function makeUnproxiedEntityType(definition: EntityTypeDefinition): Entit
     idColumn: definition.mapping?.idColumn || 'id',
     jsonColumn: definition.mapping ? definition.mapping.jsonColumn : 'data',
     propertyMappings: buildPropertyMappings(schema),
-    readonly: !!definition.mapping?.readonly
+    indexes: definition.mapping?.indexes || [],
+    readonly: !!definition.mapping?.readonly,
+    stripMappedProperties: !!definition.mapping?.stripMappedProperties,
+    versionProperty: definition.mapping?.versionProperty,
+    softDelete: makeSoftDeleteMapping(definition.mapping?.softDelete)
   } : undefined
   return entityType
 }
@@ -1,11 +1,32 @@
 export class PersistenceError extends Error {
   context: object | undefined
   innerError: any
+  /** The PostgreSQL SQLSTATE error code, if the error was reported by the database. */
+  sqlState: string | undefined
 
   constructor(message: any, context: object | undefined = undefined, innerError: any = undefined) {
     super(message)
     this.context = context
     this.innerError = innerError
+    this.sqlState = (innerError instanceof PersistenceError) ? innerError.sqlState
+        : (typeof innerError?.code == 'string') ? innerError.code
+        : undefined
+  }
+}
+
+export class ConcurrencyConflictError extends PersistenceError {
+  currentVersion: number | null
+  expectedVersion: number | null
+
+  constructor(
+      message: any,
+      currentVersion: number | null,
+      expectedVersion: number | null,
+      context: object | undefined = undefined
+  ) {
+    super(message, context)
+    this.currentVersion = currentVersion
+    this.expectedVersion = expectedVersion
   }
 }
 
@@ -3,8 +3,10 @@ import {SchemaRegistry} from 'schema-fun'
 
 import {DEFAULT_DOC_ORM_CONFIG, DocOrmConfig, DocOrmConfigInput} from './config.js'
 import makeDao, {Dao} from './dao.js'
+import * as drafts from './drafts.js'
 import {setLogger} from './logger.js'
 import * as db from './postgresql/db.js'
+import * as migrations from './postgresql/migrations.js'
 
 export const docorm: {
   config: DocOrmConfig
@@ -35,7 +37,9 @@ export function makeDocOrmMiddleware() {
 }
 */
 
-export {Dao, db, makeDao}
+export {Dao, db, drafts, makeDao, migrations}
 export * from './entity-types.js'
 export * from './errors.js'
+export type {JsonMergePatch, JsonPatch, JsonPatchOperation} from './json-patch.js'
 export * from './queries.js'
+export * from './query-validation.js'
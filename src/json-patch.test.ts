@@ -0,0 +1,88 @@
+import {describe, expect, test} from '@jest/globals'
+
+import {PersistenceError} from './errors.js'
+import {applyMergePatch, applyPatch, diff, JsonPatch} from './json-patch.js'
+
+describe('applyPatch', () => {
+  const document = {name: 'a', tags: ['x', 'y'], meta: {status: 'new'}}
+
+  test('applies add, remove, replace, move and copy operations in turn', () => {
+    const patch: JsonPatch = [
+      {op: 'add', path: '/tags/1', value: 'w'},
+      {op: 'add', path: '/tags/-', value: 'z'},
+      {op: 'replace', path: '/meta/status', value: 'done'},
+      {op: 'remove', path: '/name'},
+      {op: 'move', from: '/meta/status', path: '/status'},
+      {op: 'copy', from: '/tags/0', path: '/firstTag'},
+      {op: 'test', path: '/status', value: 'done'}
+    ]
+    expect(applyPatch(document, patch)).toEqual({tags: ['x', 'w', 'y', 'z'], meta: {}, status: 'done', firstTag: 'x'})
+  })
+
+  test('does not modify the original document', () => {
+    applyPatch(document, [{op: 'add', path: '/meta/owner', value: 'b'}, {op: 'remove', path: '/tags/0'}])
+    expect(document).toEqual({name: 'a', tags: ['x', 'y'], meta: {status: 'new'}})
+  })
+
+  test('replaces the whole document at the root path', () => {
+    expect(applyPatch(document, [{op: 'replace', path: '', value: {name: 'b'}}])).toEqual({name: 'b'})
+  })
+
+  test.each<[string, JsonPatch]>([
+    ['add to a missing parent', [{op: 'add', path: '/missing/status', value: 'x'}]],
+    ['add beyond the end of an array', [{op: 'add', path: '/tags/3', value: 'z'}]],
+    ['add to a scalar', [{op: 'add', path: '/name/first', value: 'x'}]],
+    ['replace a missing value', [{op: 'replace', path: '/meta/owner', value: 'x'}]],
+    ['remove a missing value', [{op: 'remove', path: '/meta/owner'}]],
+    ['remove a missing array element', [{op: 'remove', path: '/tags/2'}]],
+    ['remove with an invalid array index', [{op: 'remove', path: '/tags/01'}]],
+    ['remove the whole document', [{op: 'remove', path: ''}]],
+    ['move from a missing value', [{op: 'move', from: '/owner', path: '/meta/owner'}]],
+    ['move a value into itself', [{op: 'move', from: '/meta', path: '/meta/status'}]],
+    ['copy from a missing value', [{op: 'copy', from: '/owner', path: '/meta/owner'}]],
+    ['test a value that differs', [{op: 'test', path: '/meta/status', value: 'done'}]],
+    ['test a missing value', [{op: 'test', path: '/meta/owner', value: null}]],
+    ['apply an unknown operation', [{op: 'merge', path: '/meta'} as any]]
+  ])('fails to %s', (_description, patch) => {
+    expect(() => applyPatch(document, patch)).toThrow(PersistenceError)
+  })
+
+  test('leaves the original document unchanged when an operation fails', () => {
+    const original = {a: 1}
+    expect(() => applyPatch(original, [{op: 'add', path: '/b', value: 2}, {op: 'remove', path: '/c'}])).toThrow()
+    expect(original).toEqual({a: 1})
+  })
+})
+
+describe('diff', () => {
+  test.each([
+    [{a: 1, b: {c: 2}}, {a: 1, b: {c: 3, d: 4}}],
+    [{a: [1, 2, 3]}, {a: [1, 4]}],
+    [{a: [1]}, {a: [1, {b: 2}, 3]}],
+    [{a: 1, b: 2}, {b: null}],
+    [{a: {b: 1}}, {a: [1]}]
+  ])('yields a patch that transforms %j into %j', (from, to) => {
+    expect(applyPatch(from, diff(from, to))).toEqual(to)
+  })
+
+  test('yields an empty patch for equal values', () => {
+    expect(diff({a: [1, {b: 2}]}, {a: [1, {b: 2}]})).toEqual([])
+  })
+})
+
+describe('applyMergePatch', () => {
+  test('sets properties, removes properties whose value is null and merges objects recursively', () => {
+    const document = {a: 1, b: {c: 2, d: 3}, e: [1, 2]}
+    expect(applyMergePatch(document, {a: null, b: {c: null, f: 4}, e: [3]}))
+        .toEqual({b: {d: 3, f: 4}, e: [3]})
+    expect(document).toEqual({a: 1, b: {c: 2, d: 3}, e: [1, 2]})
+  })
+
+  test('replaces a non-object with an object before merging into it', () => {
+    expect(applyMergePatch({a: 'x'}, {a: {b: 1, c: null}})).toEqual({a: {b: 1}})
+  })
+
+  test('replaces the whole document with a patch that is not an object', () => {
+    expect(applyMergePatch({a: 1}, ['b'])).toEqual(['b'])
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396) utilities
+ *
+ * @module lib/json-patch
+ */
+
+import jsonPointer from 'json-pointer'
+import _ from 'lodash'
+
+import {PersistenceError} from './errors.js'
+
+export interface JsonPatchAddOperation {
+  op: 'add'
+  path: string
+  value: any
+}
+
+export interface JsonPatchRemoveOperation {
+  op: 'remove'
+  path: string
+}
+
+export interface JsonPatchReplaceOperation {
+  op: 'replace'
+  path: string
+  value: any
+}
+
+export interface JsonPatchMoveOperation {
+  op: 'move'
+  from: string
+  path: string
+}
+
+export interface JsonPatchCopyOperation {
+  op: 'copy'
+  from: string
+  path: string
+}
+
+export interface JsonPatchTestOperation {
+  op: 'test'
+  path: string
+  value: any
+}
+
+export type JsonPatchOperation = JsonPatchAddOperation | JsonPatchRemoveOperation | JsonPatchReplaceOperation
+    | JsonPatchMoveOperation | JsonPatchCopyOperation | JsonPatchTestOperation
+
+export type JsonPatch = JsonPatchOperation[]
+
+/**
+ * Compute a JSON patch that transforms one JSON value into another.
+ *
+ * Objects are compared property by property. Arrays are compared element by element, with elements added or removed at
+ * the end; no attempt is made to detect moved elements. Only add, remove and replace operations are generated.
+ *
+ * @param from The original value.
+ * @param to The new value.
+ * @return A JSON patch that, applied to from, yields to.
+ */
+export function diff(from: any, to: any): JsonPatch {
+  const operations: JsonPatch = []
+  diffAtPath(from, to, [], operations)
+  return operations
+}
+
+function diffAtPath(from: any, to: any, path: string[], operations: JsonPatch) {
+  if (_.isEqual(from, to)) {
+    return
+  }
+  const pointer = jsonPointer.compile(path)
+  if (_.isArray(from) && _.isArray(to)) {
+    const commonLength = Math.min(from.length, to.length)
+    for (let i = 0; i < commonLength; i++) {
+      diffAtPath(from[i], to[i], [...path, i.toString()], operations)
+    }
+    // Remove elements from the end first, so that the indices of earlier elements remain valid.
+    for (let i = from.length - 1; i >= to.length; i--) {
+      operations.push({op: 'remove', path: jsonPointer.compile([...path, i.toString()])})
+    }
+    for (let i = from.length; i < to.length; i++) {
+      operations.push({op: 'add', path: jsonPointer.compile([...path, '-']), value: _.cloneDeep(to[i])})
+    }
+  } else if (_.isPlainObject(from) && _.isPlainObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) {
+        operations.push({op: 'remove', path: jsonPointer.compile([...path, key])})
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if (key in from) {
+        diffAtPath(from[key], to[key], [...path, key], operations)
+      } else {
+        operations.push({op: 'add', path: jsonPointer.compile([...path, key]), value: _.cloneDeep(to[key])})
+      }
+    }
+  } else {
+    operations.push({op: 'replace', path: pointer, value: _.cloneDeep(to)})
+  }
+}
+
+/**
+ * A JSON merge patch (RFC 7396). Each property replaces the corresponding property of the target, except that null
+ * removes it and an object is merged recursively into it.
+ */
+export type JsonMergePatch = {[key: string]: any}
+
+/**
+ * Determine whether a patch is a JSON patch, as opposed to a JSON merge patch.
+ *
+ * @param patch The patch.
+ * @return True if the patch is a JSON patch (an array of operations).
+ */
+export function isJsonPatch(patch: JsonPatch | JsonMergePatch): patch is JsonPatch {
+  return _.isArray(patch)
+}
+
+/**
+ * Apply a JSON patch (RFC 6902) to a JSON value.
+ *
+ * @param document The value to patch. It is not modified.
+ * @param patch The JSON patch.
+ * @return The patched value.
+ * @throws PersistenceError if an operation refers to a missing location or a test operation fails.
+ */
+export function applyPatch(document: any, patch: JsonPatch): any {
+  let result = _.cloneDeep(document)
+  for (const operation of patch) {
+    const path = jsonPointer.parse(operation.path)
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, path, _.cloneDeep(operation.value))
+        break
+      case 'remove':
+        result = removeValue(result, path)
+        break
+      case 'replace':
+        getValue(result, path)
+        result = addValue(removeValueIfNotRoot(result, path), path, _.cloneDeep(operation.value))
+        break
+      case 'move': {
+        if (operation.path.startsWith(operation.from + '/')) {
+          throw new PersistenceError('A JSON patch cannot move a value into itself.', {operation})
+        }
+        const from = jsonPointer.parse(operation.from)
+        const value = getValue(result, from)
+        result = addValue(removeValue(result, from), path, value)
+        break
+      }
+      case 'copy':
+        result = addValue(result, path, _.cloneDeep(getValue(result, jsonPointer.parse(operation.from))))
+        break
+      case 'test':
+        if (!_.isEqual(getValue(result, path), operation.value)) {
+          throw new PersistenceError('A JSON patch test operation failed.', {operation})
+        }
+        break
+      default:
+        throw new PersistenceError('A JSON patch has an unknown operation.', {operation})
+    }
+  }
+  return result
+}
+
+/**
+ * Apply a JSON merge patch (RFC 7396) to a JSON value.
+ *
+ * @param document The value to patch. It is not modified.
+ * @param patch The JSON merge patch.
+ * @return The patched value.
+ */
+export function applyMergePatch(document: any, patch: any): any {
+  if (!_.isPlainObject(patch)) {
+    return _.cloneDeep(patch)
+  }
+  const result = _.isPlainObject(document) ? {...document} : {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  }
+  return result
+}
+
+function arrayIndexFromToken(array: any[], token: string, allowEnd: boolean, path: string[]): number {
+  const maxIndex = allowEnd ? array.length : array.length - 1
+  if (!/^(0|[1-9][0-9]*)$/.test(token) || parseInt(token) > maxIndex) {
+    throw new PersistenceError('A JSON patch refers to a missing array element.', {path: jsonPointer.compile(path)})
+  }
+  return parseInt(token)
+}
+
+function getValue(document: any, path: string[]): any {
+  let value = document
+  for (let i = 0; i < path.length; i++) {
+    const token = path[i]
+    if (_.isArray(value)) {
+      value = value[arrayIndexFromToken(value, token, false, path)]
+    } else if (_.isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, token)) {
+      value = value[token]
+    } else {
+      throw new PersistenceError('A JSON patch refers to a missing value.', {path: jsonPointer.compile(path)})
+    }
+  }
+  return value
+}
+
+function addValue(document: any, path: string[], value: any): any {
+  if (path.length == 0) {
+    return value
+  }
+  const parent = getValue(document, path.slice(0, -1))
+  const token = path[path.length - 1]
+  if (_.isArray(parent)) {
+    if (token == '-') {
+      parent.push(value)
+    } else {
+      parent.splice(arrayIndexFromToken(parent, token, true, path), 0, value)
+    }
+  } else if (_.isPlainObject(parent)) {
+    parent[token] = value
+  } else {
+    throw new PersistenceError('A JSON patch refers to a missing value.', {path: jsonPointer.compile(path)})
+  }
+  return document
+}
+
+function removeValue(document: any, path: string[]): any {
+  if (path.length == 0) {
+    throw new PersistenceError('A JSON patch cannot remove the whole document.')
+  }
+  const parent = getValue(document, path.slice(0, -1))
+  const token = path[path.length - 1]
+  if (_.isArray(parent)) {
+    parent.splice(arrayIndexFromToken(parent, token, false, path), 1)
+  } else if (_.isPlainObject(parent) && Object.prototype.hasOwnProperty.call(parent, token)) {
+    delete parent[token]
+  } else {
+    throw new PersistenceError('A JSON patch refers to a missing value.', {path: jsonPointer.compile(path)})
+  }
+  return document
+}
+
+function removeValueIfNotRoot(document: any, path: string[]): any {
+  return path.length == 0 ? document : removeValue(document, path)
+}
@@ -0,0 +1,111 @@
+import {describe, expect, test} from '@jest/globals'
+import {Readable, Transform} from 'stream'
+
+import {encodeCsvRecord, inlineSqlParameters, makeCsvParser, makeNdjsonParser, makeRecordCounter} from './copy.js'
+
+async function parse(parser: Transform, chunks: (string | Buffer)[]): Promise<any[]> {
+  const values: any[] = []
+  for await (const value of Readable.from(chunks, {objectMode: false}).pipe(parser)) {
+    values.push(value)
+  }
+  return values
+}
+
+describe('encodeCsvRecord', () => {
+  test('quotes every non-null value and leaves null values empty', () => {
+    expect(encodeCsvRecord(['a', 1, true, null, undefined, ''])).toBe('"a","1","true",,,""\n')
+  })
+
+  test('doubles quotation marks and keeps commas and line breaks inside quoted fields', () => {
+    expect(encodeCsvRecord(['say "hi"', 'a,b', 'line 1\nline 2'])).toBe('"say ""hi""","a,b","line 1\nline 2"\n')
+  })
+
+  test('encodes dates as ISO 8601 strings and objects as JSON', () => {
+    expect(encodeCsvRecord([new Date('2024-01-02T03:04:05.006Z'), {a: [1]}]))
+        .toBe('"2024-01-02T03:04:05.006Z","{""a"":[1]}"\n')
+  })
+
+  test('encodes the values of JSON columns as JSON', () => {
+    expect(encodeCsvRecord(['x', 'x'], [1])).toBe('"x","""x"""\n')
+  })
+})
+
+describe('makeCsvParser', () => {
+  test('parses quoted and unquoted fields, with unquoted empty fields as null', async () => {
+    expect(await parse(makeCsvParser(), ['"a",b,,""\n"c","d","e","f"\n'])).toEqual([
+      ['a', 'b', null, ''],
+      ['c', 'd', 'e', 'f']
+    ])
+  })
+
+  test('parses doubled quotation marks, commas and line breaks in quoted fields, and CRLF line endings', async () => {
+    expect(await parse(makeCsvParser(), ['"say ""hi""","a,b","line 1\nline 2"\r\n'])).toEqual([
+      ['say "hi"', 'a,b', 'line 1\nline 2']
+    ])
+  })
+
+  test('parses quoted fields split between chunks', async () => {
+    const text = '"say ""hi""","a,b","line 1\nline 2"\n"x",""\n'
+    const expected = [['say "hi"', 'a,b', 'line 1\nline 2'], ['x', '']]
+    // Split the text at every position, including between the quotation marks of a doubled pair.
+    for (let i = 1; i < text.length; i++) {
+      expect(await parse(makeCsvParser(), [text.slice(0, i), text.slice(i)])).toEqual(expected)
+    }
+  })
+
+  test('parses multibyte characters split between chunks', async () => {
+    const bytes = Buffer.from('"café","ü"\n')
+    const splitIndex = bytes.indexOf(Buffer.from('é')) + 1
+    expect(await parse(makeCsvParser(), [bytes.subarray(0, splitIndex), bytes.subarray(splitIndex)]))
+        .toEqual([['café', 'ü']])
+  })
+
+  test('parses a last record that lacks a line break, and ignores empty lines', async () => {
+    expect(await parse(makeCsvParser(), ['"a"\n\n"b"'])).toEqual([['a'], ['b']])
+  })
+})
+
+describe('makeNdjsonParser', () => {
+  test('parses lines split between chunks, ignoring blank lines', async () => {
+    expect(await parse(makeNdjsonParser(), ['{"a":', '1}\n\n{"b"', ':"x\\ny"}\n  \n[1,', '2]'])).toEqual([
+      {a: 1},
+      {b: 'x\ny'},
+      [1, 2]
+    ])
+  })
+
+  test('fails on a line that is not JSON', async () => {
+    await expect(parse(makeNdjsonParser(), ['{"a":1}\n{"b":\n'])).rejects.toThrow(SyntaxError)
+  })
+})
+
+describe('makeRecordCounter', () => {
+  test('counts CSV records, ignoring line breaks in quoted fields', async () => {
+    let count = 0
+    await parse(makeRecordCounter(() => count++), ['"a","line 1\n', 'line 2"\n"b",""""\n'])
+    expect(count).toBe(2)
+  })
+
+  test('counts lines of NDJSON', async () => {
+    let count = 0
+    await parse(makeRecordCounter(() => count++, false), ['{"a":"\\""}\n{"b"', ':1}\n'])
+    expect(count).toBe(2)
+  })
+})
+
+describe('inlineSqlParameters', () => {
+  test('replaces parameters with quoted literals and NULL', () => {
+    expect(inlineSqlParameters('SELECT $1, $2, $3, $4', ['it\'s', 42, true, null]))
+        .toBe('SELECT \'it\'\'s\', \'42\', \'true\', NULL')
+  })
+
+  test('encodes arrays as array literals, dates as ISO 8601 strings and objects as JSON', () => {
+    expect(inlineSqlParameters('$1 $2 $3', [['a', 'b"c', null], new Date('2024-01-02T00:00:00.000Z'), {a: 'x'}]))
+        .toBe('\'{"a","b\\"c",NULL}\' \'2024-01-02T00:00:00.000Z\' \'{"a":"x"}\'')
+  })
+
+  test('distinguishes parameters with more than one digit, and leaves parameters without values unchanged', () => {
+    const values = Array.from({length: 10}, (_value, i) => i + 1)
+    expect(inlineSqlParameters('$1 $10 $11', values)).toBe('\'1\' \'10\' $11')
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Encoding and decoding of data transferred by PostgreSQL COPY statements
+ *
+ * Data are sent to and received from COPY statements in CSV format, in which a NULL is an unquoted empty field and
+ * every non-null value is quoted. Documents may also be read and written as newline-delimited JSON (NDJSON).
+ *
+ * @module lib/db/postgresql/copy
+ */
+
+import {Transform} from 'stream'
+import {StringDecoder} from 'string_decoder'
+
+/** A field of a CSV record. Null represents an unquoted empty field, which PostgreSQL reads and writes as NULL. */
+export type CsvField = string | null
+
+/**
+ * Encode one value as a CSV field.
+ *
+ * @param value The value. Objects and arrays are encoded as JSON, and dates as ISO 8601 strings.
+ * @param asJson A flag indicating whether to encode the value as JSON regardless of its type.
+ * @return The CSV field, which is empty for null and undefined values and quoted otherwise.
+ */
+function encodeCsvField(value: any, asJson = false): string {
+  if (value == null) {
+    return ''
+  }
+  let text: string
+  if (asJson) {
+    text = JSON.stringify(value)
+  } else if (value instanceof Date) {
+    text = value.toISOString()
+  } else if (typeof value == 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+  return '"' + text.replace(/"/g, '""') + '"'
+}
+
+/**
+ * Encode a row of values as a CSV record, including its terminating newline.
+ *
+ * @param values The values.
+ * @param jsonColumns Indices of values that should be encoded as JSON.
+ * @return The CSV record.
+ */
+export function encodeCsvRecord(values: any[], jsonColumns: number[] = []): string {
+  return values.map((value, i) => encodeCsvField(value, jsonColumns.includes(i))).join(',') + '\n'
+}
+
+/**
+ * Make a transform stream that parses CSV text into records.
+ *
+ * Quoted fields may contain commas, doubled quotation marks and line breaks. Unquoted empty fields are parsed as null.
+ *
+ * @return A transform stream whose input is text and whose output is arrays of fields, one per record.
+ */
+export function makeCsvParser(): Transform {
+  let fields: CsvField[] = []
+  let field = ''
+  let fieldIsQuoted = false
+  let inQuotes = false
+  // A quotation mark inside a quoted field may end the field or, if followed by another, stand for a quotation mark.
+  let pendingQuote = false
+  let recordHasContent = false
+  // Decode incrementally, since a multibyte character may be split between chunks.
+  const decoder = new StringDecoder('utf8')
+
+  const endField = () => {
+    fields.push((field == '' && !fieldIsQuoted) ? null : field)
+    field = ''
+    fieldIsQuoted = false
+    recordHasContent = true
+  }
+
+  const endRecord = (stream: Transform) => {
+    if (recordHasContent || field != '' || fieldIsQuoted) {
+      endField()
+      stream.push(fields)
+    }
+    fields = []
+    recordHasContent = false
+  }
+
+  return new Transform({
+    readableObjectMode: true,
+    transform(chunk, _encoding, callback) {
+      const text = (typeof chunk == 'string') ? chunk : decoder.write(chunk)
+      for (const char of text) {
+        if (pendingQuote) {
+          pendingQuote = false
+          if (char == '"') {
+            field += '"'
+            continue
+          }
+          inQuotes = false
+        }
+        if (inQuotes) {
+          if (char == '"') {
+            pendingQuote = true
+          } else {
+            field += char
+          }
+        } else if (char == '"') {
+          inQuotes = true
+          fieldIsQuoted = true
+        } else if (char == ',') {
+          endField()
+        } else if (char == '\n') {
+          endRecord(this)
+        } else if (char != '\r') {
+          field += char
+        }
+      }
+      callback()
+    },
+    flush(callback) {
+      endRecord(this)
+      callback()
+    }
+  })
+}
+
+/**
+ * Make a transform stream that parses newline-delimited JSON text into values.
+ *
+ * Blank lines are ignored.
+ *
+ * @return A transform stream whose input is text and whose output is the parsed values.
+ */
+export function makeNdjsonParser(): Transform {
+  let buffer = ''
+  const decoder = new StringDecoder('utf8')
+  const parseLine = (stream: Transform, line: string) => {
+    if (line.trim() != '') {
+      stream.push(JSON.parse(line))
+    }
+  }
+  return new Transform({
+    readableObjectMode: true,
+    transform(chunk, _encoding, callback) {
+      buffer += (typeof chunk == 'string') ? chunk : decoder.write(chunk)
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      try {
+        for (const line of lines) {
+          parseLine(this, line)
+        }
+        callback()
+      } catch (err) {
+        callback(err as Error)
+      }
+    },
+    flush(callback) {
+      try {
+        parseLine(this, buffer)
+        callback()
+      } catch (err) {
+        callback(err as Error)
+      }
+    }
+  })
+}
+
+/**
+ * Make a SQL literal from a query parameter value, so that a parameterized query can be embedded in a COPY statement,
+ * which does not accept parameters.
+ *
+ * Every non-null value becomes a quoted literal of unknown type, whose type PostgreSQL infers from context just as it
+ * does for a parameter. A number compared with text extracted from a JSON document is therefore compared as text.
+ *
+ * @param value The parameter value.
+ * @return A SQL literal.
+ */
+function sqlLiteralFromParameterValue(value: any): string {
+  if (value == null) {
+    return 'NULL'
+  } else if (Array.isArray(value)) {
+    const elements = value.map((element) => element == null ? 'NULL'
+      : '"' + String(element).replace(/[\\"]/g, (c) => `\\${c}`) + '"')
+    return sqlLiteralFromParameterValue(`{${elements.join(',')}}`)
+  } else if (value instanceof Date) {
+    return sqlLiteralFromParameterValue(value.toISOString())
+  } else if (typeof value == 'object') {
+    return sqlLiteralFromParameterValue(JSON.stringify(value))
+  }
+  return `'${String(value).replace(/'/g, '\'\'')}'`
+}
+
+/**
+ * Replace the numbered parameters of a SQL query with literal values.
+ *
+ * @param sqlQuery The query text, which may include numbered parameters of the form $1, $2, etc.
+ * @param parameterValues The parameter values.
+ * @return The query text with parameters replaced by literals.
+ */
+export function inlineSqlParameters(sqlQuery: string, parameterValues: any[]): string {
+  return sqlQuery.replace(/\$(\d+)/g, (match, n) => {
+    const index = parseInt(n) - 1
+    return (index < parameterValues.length) ? sqlLiteralFromParameterValue(parameterValues[index]) : match
+  })
+}
+
+/**
+ * Make a pass-through stream that counts the records in CSV or NDJSON text.
+ *
+ * @param onRecord A function called after each record.
+ * @param csv A flag indicating whether the text is CSV, whose quoted fields may contain line breaks. Otherwise each
+ *   line is a record.
+ * @return A transform stream whose output is its input.
+ */
+export function makeRecordCounter(onRecord: () => void, csv = true): Transform {
+  let inQuotes = false
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      const text = chunk.toString('latin1')
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (csv && char == '"') {
+          // A doubled quotation mark in a quoted field toggles the state twice, leaving it unchanged.
+          inQuotes = !inQuotes
+        } else if (char == '\n' && !inQuotes) {
+          onRecord()
+        }
+      }
+      callback(null, chunk)
+    }
+  })
+}
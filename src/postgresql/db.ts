@@ -6,72 +6,116 @@
 
 import {Mutex} from 'async-mutex'
 import cls from 'cls-hooked'
+import _ from 'lodash'
 import pg from 'pg'
+import {from as copyFrom, to as copyTo} from 'pg-copy-streams'
 import QueryStream from 'pg-query-stream'
-import pgpFactory from 'pg-promise'
+import {Readable, Transform} from 'stream'
+import {pipeline} from 'stream/promises'
 
+import {User} from '../entity-types.js'
 import {docorm} from '../index.js'
 import logger from '../logger.js'
 import {PersistenceError} from '../errors.js'
 
-// The following environment variables define the database connection:
+// Connection settings that are absent from the postgresql configuration are taken from the following environment
+// variables:
 // - PGHOST default: 'localhost'
 // - PGPORT default: 5432
 // - PGUSER default: process.env.user
 // - PGDATABASE default: process.env.user
 // - PGPASSWORD default: null
 
-export type Client = pg.PoolClient & {lastQuery?: any[], numQueriesInTransaction?: number}
+export type Client = pg.PoolClient & {
+  lastQuery?: any[],
+  /** The time at which the client was checked out of the pool, in milliseconds since the epoch. */
+  checkedOutAt?: number,
+  numQueriesInTransaction?: number,
+  /** A flag indicating whether the client has begun a transaction that has not yet been committed or rolled back. */
+  inTransaction?: boolean,
+  /** The number of savepoints currently established by nested calls to {@link withTransaction}. */
+  savepointDepth?: number
+}
 
 /** node-postgres connection pool. */
 let pool: pg.Pool | null = null
 
-/** pg-promise database factory. */
-let pgp: ReturnType<typeof pgpFactory> | null
-
-/** pg-promise database. */
-let pgpDb: ReturnType<Exclude<typeof pgp, null>> | null = null
+/** Clients that have been checked out of the pool and not yet released. */
+const checkedOutClients = new Set<Client>()
 
 /** Mutex used to synchronize requests for new clients from a pool. */
 const getClientMutex = new Mutex()
 
+/** A transaction isolation level. PostgreSQL treats read uncommitted as read committed, so it is not offered. */
+export type IsolationLevel = 'read committed' | 'repeatable read' | 'serializable'
+
+/**
+ * A policy for retrying transactions that fail because of serialization failures or deadlocks.
+ *
+ * The delay before each retry grows exponentially from initialDelay, up to maxDelay, with random jitter.
+ */
+export interface RetryPolicy {
+  /** The maximum number of attempts, including the first. */
+  maxAttempts: number
+  /** The delay before the first retry, in milliseconds. */
+  initialDelay: number
+  /** The maximum delay before a retry, in milliseconds. */
+  maxDelay: number
+  /** The factor by which the delay grows after each retry. */
+  backoffFactor: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 50,
+  maxDelay: 1000,
+  backoffFactor: 2
+}
+
+/** SQLSTATE codes of errors after which a transaction may succeed if retried: serialization failure and deadlock. */
+const RETRYABLE_SQL_STATES = ['40001', '40P01']
+
+function makeBeginStatement(isolationLevel?: IsolationLevel) {
+  return isolationLevel ? `BEGIN ISOLATION LEVEL ${isolationLevel.toUpperCase()}` : 'BEGIN'
+}
+
+/**
+ * Determine whether an error may be resolved by retrying the transaction in which it occurred.
+ *
+ * @param err An error thrown during a transaction.
+ * @return True if the error is a serialization failure or deadlock.
+ */
+export function isRetryableError(err: any) {
+  const sqlState = (err instanceof PersistenceError) ? err.sqlState : err?.code
+  return RETRYABLE_SQL_STATES.includes(sqlState)
+}
+
 export function initDb() {
   // node-postgres setup
 
+  const postgresqlConfig = docorm.config.postgresql
   pool = new pg.Pool({
-    ssl: docorm.config.postgresql.ssl ?
+    host: postgresqlConfig.host,
+    port: postgresqlConfig.port,
+    database: postgresqlConfig.database,
+    user: postgresqlConfig.username,
+    password: postgresqlConfig.password,
+    ssl: postgresqlConfig.ssl ?
         {
-          rejectUnauthorized: !docorm.config.postgresql.allowUnknownSslCertificate
+          rejectUnauthorized: !postgresqlConfig.allowUnknownSslCertificate
         }
         : undefined,
-    max: 100
+    application_name: postgresqlConfig.applicationName,
+    statement_timeout: postgresqlConfig.statementTimeout,
+    max: postgresqlConfig.pool.max,
+    min: postgresqlConfig.pool.min,
+    idleTimeoutMillis: postgresqlConfig.pool.idleTimeout,
+    connectionTimeoutMillis: postgresqlConfig.pool.connectionTimeout
   })
 
   pool.on('error', (err) => {
     console.error('The database connection pool reported an error:', err)
   })
-
-  // pg-promise setup
-
-  // We have introduced pg-promise to handle bulk inserts better than raw node-postgres. This is used
-  // in one case (saving REDCap events). We may soon stop using node-postgres directly altogether,
-  // replacing getClient below with getTx (where transactions are needed) and getTask (where they are
-  // not).
-
-  // TODO Since we have already set up pg.Pool, this results in a warning about duplicate database objects.
-
-  pgp = pgpFactory({capSQL: true})
-  pgpDb = pgp({
-    host: docorm.config.postgresql.host,
-    port: docorm.config.postgresql.port,
-    database: docorm.config.postgresql.database,
-    user: docorm.config.postgresql.username,
-    password: docorm.config.postgresql.password,
-    ssl: docorm.config.postgresql.ssl ?
-        {rejectUnauthorized: !docorm.config.postgresql.allowUnknownSslCertificate}
-        : undefined,
-    max: 20
-  })
 }
 
 function getClsNamespace() {
@@ -80,6 +124,19 @@ function getClsNamespace() {
   return {clsNamespace, operationId}
 }
 
+/**
+ * Get the current user and operation ID from the CLS context, if any.
+ *
+ * The user is stored under the CLS key given by the userKey configuration setting.
+ *
+ * @return The current user and operation ID, either of which may be undefined.
+ */
+export function getClsContext() {
+  const {clsNamespace, operationId} = getClsNamespace()
+  const user = (docorm.config.userKey ? clsNamespace?.get(docorm.config.userKey) : undefined) as User | undefined
+  return {user, operationId}
+}
+
 /**
  * Obtain a database client for the current CLS context.
  *
@@ -103,11 +160,19 @@ function getClsNamespace() {
  * @param options
  * @param options.transactional - A flag indicating whether to start a transaction when obtaining a new client. This has
  *   no effect if a client is already associated with the CLS context.
+ * @param options.isolationLevel - The isolation level of the transaction, if one is started. Defaults to the database's
+ *   default isolation level.
  * @param options.useClientFromCLS - A flag indicating whether to use an existing client obtained from Continuation
  *   Local Storage. If false, a new client will be requested from the pool.
  * @return - A database client from the pool.
  */
-export async function getClient({transactional = true, useClientFromCLS = true} = {}) {
+export async function getClient(
+    {transactional = true, useClientFromCLS = true, isolationLevel = undefined}: {
+      transactional?: boolean,
+      useClientFromCLS?: boolean,
+      isolationLevel?: IsolationLevel
+    } = {}
+) {
   const {clsNamespace, operationId} = getClsNamespace()
 
   let client: Client | null = null
@@ -131,7 +196,7 @@ export async function getClient({transactional = true, useClientFromCLS = true}
         client = await pool.connect()
         customizeClient(client)
         if (transactional) {
-          await client.query('BEGIN')
+          await client.query(makeBeginStatement(isolationLevel))
           logger().log('db', `Began transaction`, {operationId})
         } else {
           logger().verbose(
@@ -140,6 +205,7 @@ export async function getClient({transactional = true, useClientFromCLS = true}
           )
         }
         client.numQueriesInTransaction = 0
+        client.inTransaction = transactional
         if (useClientFromCLS && clsNamespace) {
           clsNamespace.set('client', client)
         }
@@ -152,30 +218,6 @@ export async function getClient({transactional = true, useClientFromCLS = true}
   return client
 }
 
-/*
-export function setupPgPromiseClient(transactional = true) {
-  const clsNamespace = cls.getNamespace('lims.db.transaction')
-  return new Promise((resolve, reject) => {
-    if (transactional) {
-      pgpDb.tx(async (t) => {
-        clsNamespace.set('client', t)
-        resolve(t)
-      })
-    } else {
-      pgpDb.task(async (t) => {
-        clsNamespace.set('client', t)
-        resolve(t)
-      })
-    }
-  })
-}
-
-async function getPgPromiseClient() {
-  const clsNamespace = cls.getNamespace('lims.db.transaction')
-  return clsNamespace.get('client')
-}
-*/
-
 export async function commit(client?: Client) {
   const useClientFromCls = client == null
   const {clsNamespace, operationId} = getClsNamespace()
@@ -190,6 +232,7 @@ export async function commit(client?: Client) {
     await client.query('COMMIT')
     logger().log('db', 'Committed changes', {operationId})
     client.numQueriesInTransaction = 0
+    client.inTransaction = false
   }
 }
 
@@ -231,6 +274,7 @@ export async function rollback(client: Client | null = null) {
     await client.query('ROLLBACK')
     logger().log('db', `Rolled back transaction`, {operationId})
     client.numQueriesInTransaction = 0
+    client.inTransaction = false
   }
 }
 
@@ -245,6 +289,7 @@ export function releaseClient(client: Client | null = null) {
     }
     if (client) {
       client.numQueriesInTransaction = 0
+      client.inTransaction = false
       client.release()
       logger().verbose(`Released database client`, {operationId})
     }
@@ -258,45 +303,260 @@ export function releaseClient(client: Client | null = null) {
   }
 }
 
+/** Options for calls to withTransaction. */
+export interface TransactionOptions {
+  /**
+   * A database client to use. If absent, the client associated with the current CLS context is used, and if the context
+   * has no client yet, one is obtained for it; outside a CLS context, a new client is obtained from the pool.
+   */
+  client?: Client,
+  /** The isolation level of the transaction. This has no effect on nested transactions. */
+  isolationLevel?: IsolationLevel,
+  /**
+   * A policy for retrying the transaction after a serialization failure or deadlock. If true, the default policy is
+   * used. By default, transactions are not retried. This has no effect on nested transactions, since only a whole
+   * transaction can be retried; errors in nested transactions propagate to the outermost one.
+   */
+  retry?: boolean | Partial<RetryPolicy>
+}
+
+/**
+ * Run a function in a database transaction.
+ *
+ * If no transaction is in progress, a transaction is begun before the function is called. It is committed if the
+ * function succeeds and rolled back if it throws. If this function obtained a new client from the pool, it releases the
+ * client afterward.
+ *
+ * If a transaction is already in progress, the function runs in a nested transaction delimited by a savepoint. If the
+ * function throws, changes made since the savepoint are rolled back, but the enclosing transaction continues. In a CLS
+ * context that has no client yet, the context's client is obtained, beginning the context's transaction, and the
+ * function runs in a savepoint within it; so its changes are committed or rolled back with the rest of the context's.
+ *
+ * When a CLS namespace is configured, the function runs in a CLS context whose client is the transaction's client, so
+ * that database calls made without an explicit client, including DAO calls, join the transaction.
+ *
+ * If a retry policy is given and the transaction fails because of a serialization failure or deadlock, it is rolled
+ * back and the function is called again after a delay, so the function should have no side effects outside the
+ * database.
+ *
+ * @param callback The function to run. It receives the transaction's database client.
+ * @param options
+ * @param options.client A database client to use.
+ * @param options.isolationLevel The isolation level of the transaction.
+ * @param options.retry A policy for retrying the transaction after a serialization failure or deadlock.
+ * @return The value returned by the function.
+ */
+export async function withTransaction<T>(
+    callback: (client: Client) => Promise<T>,
+    options: TransactionOptions = {}
+): Promise<T> {
+  const {clsNamespace, operationId} = getClsNamespace()
+  const existingClient: Client | null = options.client || clsNamespace?.get('client') || null
+  if (existingClient?.inTransaction) {
+    return await withSavepoint(existingClient, callback)
+  }
+  if (!existingClient && clsNamespace?.active) {
+    const contextClient = await getClient({isolationLevel: options.isolationLevel})
+    return await withSavepoint(contextClient, callback)
+  }
+
+  const retryPolicy: RetryPolicy = options.retry ?
+      {...DEFAULT_RETRY_POLICY, ...(options.retry === true ? {} : options.retry)}
+      : {...DEFAULT_RETRY_POLICY, maxAttempts: 1}
+  const client = existingClient || await getClient({transactional: false, useClientFromCLS: false})
+  try {
+    for (let attempt = 1; ; attempt++) {
+      await client.query(makeBeginStatement(options.isolationLevel))
+      client.inTransaction = true
+      logger().log('db', 'Began transaction', {operationId})
+      try {
+        // Set the client in CLS even if the caller supplied it, since calls that omit the client must still use it.
+        const result = clsNamespace ?
+            await clsNamespace.runPromise(async () => {
+              clsNamespace.set('client', client)
+              return await callback(client)
+            })
+            : await callback(client)
+        await client.query('COMMIT')
+        logger().log('db', 'Committed changes', {operationId})
+        return result
+      } catch (err) {
+        await client.query('ROLLBACK')
+        client.inTransaction = false
+        logger().log('db', 'Rolled back transaction', {operationId})
+        if (attempt >= retryPolicy.maxAttempts || !isRetryableError(err)) {
+          throw err
+        }
+        const delay = Math.min(
+          retryPolicy.initialDelay * Math.pow(retryPolicy.backoffFactor, attempt - 1),
+          retryPolicy.maxDelay
+        )
+        logger().verbose(
+          `Retrying transaction after a serialization failure or deadlock (attempt ${attempt + 1})`,
+          {operationId, sqlState: (err as PersistenceError).sqlState || (err as any).code}
+        )
+        // Add jitter, so that transactions that conflicted with each other are unlikely to conflict again.
+        await new Promise((resolve) => setTimeout(resolve, delay * (0.5 + Math.random() / 2)))
+      }
+    }
+  } finally {
+    client.inTransaction = false
+    client.numQueriesInTransaction = 0
+    if (!existingClient) {
+      releaseClient(client)
+    }
+  }
+}
+
+async function withSavepoint<T>(client: Client, callback: (client: Client) => Promise<T>): Promise<T> {
+  const {clsNamespace} = getClsNamespace()
+  const depth = client.savepointDepth || 0
+  const savepoint = `docorm_savepoint_${depth + 1}`
+  await client.query(`SAVEPOINT ${savepoint}`)
+  client.savepointDepth = depth + 1
+  try {
+    // As in an outer transaction, calls that omit the client must use the one that holds the savepoint.
+    const result = clsNamespace ?
+        await clsNamespace.runPromise(async () => {
+          clsNamespace.set('client', client)
+          return await callback(client)
+        })
+        : await callback(client)
+    await client.query(`RELEASE SAVEPOINT ${savepoint}`)
+    return result
+  } catch (err) {
+    await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+    throw err
+  } finally {
+    client.savepointDepth = depth
+  }
+}
+
+/**
+ * The maximum number of parameters in one statement. PostgreSQL's protocol limits the number of parameters to 65535.
+ */
+const MAX_PARAMETERS_PER_STATEMENT = 65535
+
+/**
+ * Quote a SQL identifier, such as a table or column name, so that it is used verbatim.
+ *
+ * @param identifier The identifier.
+ * @return The quoted identifier.
+ */
+export function quoteIdentifier(identifier: string) {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+/**
+ * Prepare a value for use as a query parameter that is stored in a column.
+ *
+ * @param value - The value.
+ * @param columnType - The column's SQL type.
+ * @return The parameter value: null for undefined values, JSON text for jsonb columns, or the value itself.
+ */
+export function sqlParameterValue(value: any, columnType: string | undefined) {
+  if (value === undefined) {
+    return null
+  }
+  // node-postgres would convert arrays to PostgreSQL array literals, so serialize JSON values ourselves.
+  return (columnType == 'jsonb' && value !== null) ? JSON.stringify(value) : value
+}
+
 /**
- * Insert multiple rows, with no transaction.
+ * Split rows into chunks small enough that each chunk's parameters fit in one statement.
  *
- * Unlike the query() function, this uses the pg-promise package instead of node-postgres. pg-promise offers more
- * efficient handling of bulk inserts than node-postgres, on which it is based.
+ * @param rows - The rows to split.
+ * @param numColumns - The number of parameters per row.
+ * @return An array of chunks of rows.
+ */
+function chunkRows<T>(rows: T[], numColumns: number): T[][] {
+  return _.chunk(rows, Math.max(1, Math.floor(MAX_PARAMETERS_PER_STATEMENT / Math.max(1, numColumns))))
+}
+
+/**
+ * Insert multiple rows using multi-row INSERT statements.
  *
- * If we migrate fully to pg-promise, we can add support for transactions, which are not currently needed in the one
- * context where we perform bulk inserts.
+ * The statements are run by the given client or, if none is given, the client associated with the current CLS
+ * context, so they participate in the same transaction as other queries.
  *
  * @param table - The name of the table.
  * @param columns - An array of names of columns to be populated.
  * @param rows - An array of row objects to insert. Each row object should have properties whose names match the column
  *   names.
+ * @param columnTypes - SQL types of columns. Values of jsonb columns are serialized as JSON.
+ * @param client - A database client to use. If null, then a client will be obtained by calling {@link getClient}.
  */
-export async function insertMultipleRows(table: string, columns: string[], rows: object[]) {
-  const {clsNamespace, operationId} = getClsNamespace()
+export async function insertMultipleRows(
+    table: string,
+    columns: string[],
+    rows: {[column: string]: any}[],
+    columnTypes: {[column: string]: string} = {},
+    client: Client | null = null
+) {
+  const {operationId} = getClsNamespace()
 
-  if (!pgp || !pgpDb) {
-    throw new PersistenceError('pgp-promise has not been initialized before attempt to insert multiple rows.')
+  for (const chunk of chunkRows(rows, columns.length)) {
+    const parameterValues: any[] = []
+    const valuesPhrases = chunk.map((row) => '(' + columns.map((column) => {
+      parameterValues.push(sqlParameterValue(row[column], columnTypes[column]))
+      return `$${parameterValues.length}`
+    }).join(', ') + ')')
+    await query(
+      `INSERT INTO ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(', ')})`
+          + ` VALUES ${valuesPhrases.join(', ')}`,
+      parameterValues,
+      client
+    )
   }
-  const columnSet = new pgp.helpers.ColumnSet(columns, {table})
-  const query = pgp.helpers.insert(rows, columnSet)
-  await pgpDb.none(query)
   logger().log('db', `Inserted ${rows.length} rows into ${table}`, {operationId})
 }
 
-export async function updateMultipleRows(table: string, idColumn: string, columnsToUpdate: string[], rows: object[]) {
-  const {clsNamespace, operationId} = getClsNamespace()
+/**
+ * Update multiple rows using UPDATE statements that join the table with a list of new values.
+ *
+ * Like {@link insertMultipleRows}, this uses the given client or the client associated with the current CLS context.
+ *
+ * @param table - The name of the table.
+ * @param idColumn - The name of the ID column, which identifies the row to update.
+ * @param columnsToUpdate - An array of names of columns to be updated.
+ * @param rows - An array of row objects. Each row object should have properties whose names match the column names.
+ * @param columnTypes - SQL types of the updated columns, used to cast the new values. Columns not listed here are cast
+ *   to jsonb.
+ * @param client - A database client to use. If null, then a client will be obtained by calling {@link getClient}.
+ */
+export async function updateMultipleRows(
+    table: string,
+    idColumn: string,
+    columnsToUpdate: string[],
+    rows: {[column: string]: any}[],
+    columnTypes: {[column: string]: string} = {},
+    client: Client | null = null
+) {
+  const {operationId} = getClsNamespace()
 
-  if (!pgp || !pgpDb) {
-    throw new PersistenceError('pgp-promise has not been initialized before attempt to insert multiple rows.')
+  if (columnsToUpdate.length == 0) {
+    return
+  }
+  const columnTypesWithDefaults: {[column: string]: string} = {
+    [idColumn]: 'uuid',
+    ..._.fromPairs(columnsToUpdate.map((column) => [column, columnTypes[column] || 'jsonb']))
+  }
+  const columns = [idColumn, ...columnsToUpdate]
+  for (const chunk of chunkRows(rows, columns.length)) {
+    const parameterValues: any[] = []
+    const valuesPhrases = chunk.map((row) => '(' + columns.map((column) => {
+      parameterValues.push(sqlParameterValue(row[column], columnTypesWithDefaults[column]))
+      return `$${parameterValues.length}::${columnTypesWithDefaults[column]}`
+    }).join(', ') + ')')
+    await query(
+      `UPDATE ${quoteIdentifier(table)} AS t`
+          + ` SET ${columnsToUpdate.map((c) => `${quoteIdentifier(c)} = v.${quoteIdentifier(c)}`).join(', ')}`
+          + ` FROM (VALUES ${valuesPhrases.join(', ')}) AS v (${columns.map(quoteIdentifier).join(', ')})`
+          + ` WHERE t.${quoteIdentifier(idColumn)} = v.${quoteIdentifier(idColumn)}`,
+      parameterValues,
+      client
+    )
   }
-  const columnSet = new pgp.helpers.ColumnSet(
-    // [`?${idColumn}`, ...columnsToUpdate],
-    [{name: idColumn, cnd: true, cast: 'uuid'}, ...columnsToUpdate.map((col) => ({name: col, cast: 'jsonb'}))],
-    {table}
-  )
-  const query = pgp.helpers.update(rows, columnSet) + ` WHERE v.${idColumn} = t.${idColumn}`
-  await pgpDb.none(query)
   logger().log('db', `Updated ${rows.length} rows in ${table}`, {operationId})
 }
 
@@ -381,19 +641,90 @@ export async function queryStream(sqlQuery: string, params: any[] = [], client:
   }
 }
 
+/**
+ * Run a COPY ... FROM STDIN statement, streaming data to the database.
+ *
+ * Like {@link query}, this uses the given client or the client associated with the current CLS context, so the copied
+ * rows participate in the current transaction.
+ *
+ * @param sqlQuery - The COPY statement.
+ * @param source - A readable stream that supplies the data in the format expected by the COPY statement.
+ * @param transforms - Transform streams through which the data pass on their way from the source to the database.
+ * @param client - A database client to use. If null, then a client will be obtained by calling {@link getClient}.
+ * @return The number of rows copied.
+ */
+export async function copyFromStream(
+    sqlQuery: string,
+    source: Readable,
+    transforms: Transform[] = [],
+    client: Client | null = null
+) {
+  const useClientFromCls = client == null
+  const {operationId} = getClsNamespace()
+
+  if (useClientFromCls) {
+    client = await getClient()
+  }
+  if (!client) {
+    throw new PersistenceError('No database client when attempting to copy data.', {operationId})
+  }
+  const start = Date.now()
+  try {
+    const copyStream = await client.query(copyFrom(sqlQuery))
+    await pipeline([source, ...transforms, copyStream])
+    const duration = Date.now() - start
+    logger().log('db', 'Executed copy', {sqlQuery, duration, rows: copyStream.rowCount, operationId})
+    return copyStream.rowCount
+  } catch (err) {
+    throw new PersistenceError('Error while copying data to the database', {sqlQuery}, err)
+  }
+}
+
+/**
+ * Run a COPY ... TO STDOUT statement, streaming data from the database.
+ *
+ * Like {@link queryStream}, this should not share its client with other queries while the stream is being read.
+ *
+ * @param sqlQuery - The COPY statement.
+ * @param client - A database client to use. If null, then a client will be obtained by calling {@link getClient}.
+ * @return A readable stream of the data, in the format given by the COPY statement.
+ */
+export async function copyToStream(sqlQuery: string, client: Client | null = null): Promise<Readable> {
+  const useClientFromCls = client == null
+  const {operationId} = getClsNamespace()
+
+  if (useClientFromCls) {
+    client = await getClient()
+  }
+  if (!client) {
+    throw new PersistenceError('No database client when attempting to copy data.', {operationId})
+  }
+  try {
+    logger().log('db', 'Executing copy', {sqlQuery, operationId})
+    return await client.query(copyTo(sqlQuery))
+  } catch (err) {
+    throw new PersistenceError('Error while copying data from the database', {sqlQuery}, err)
+  }
+}
+
 export async function customizeClient(client: Client) {
   const query = client.query
   const release = client.release
   client.numQueriesInTransaction = 0
-
-  // Set a timeout of 5 seconds, after which we will log this client's last query.
-  const timeout = setTimeout(() => {
-    console.error(
-      'A database client has been checked out for more than 5 seconds.',
-      {query: client.lastQuery}
-    )
-    console.error(`The last executed query on this client was: ${client.lastQuery}`)
-  }, 5000)
+  client.checkedOutAt = Date.now()
+  checkedOutClients.add(client)
+
+  // Set a timeout, after which we will log this client's last query.
+  const leakWarningThreshold = docorm.config.postgresql.pool.leakWarningThreshold
+  const timeout = leakWarningThreshold > 0 ?
+      setTimeout(() => {
+        console.error(
+          `A database client has been checked out for more than ${leakWarningThreshold} milliseconds.`,
+          {query: client.lastQuery}
+        )
+        console.error(`The last executed query on this client was: ${client.lastQuery}`)
+      }, leakWarningThreshold)
+      : undefined
 
   // Monkey-patch the query method to count queries in a transaction and keep track of the last query executed.
   client.query = (async (...args: Parameters<typeof query>) => {
@@ -405,6 +736,8 @@ export async function customizeClient(client: Client) {
   client.release = () => {
     // Clear the timeout.
     clearTimeout(timeout)
+    checkedOutClients.delete(client)
+    client.checkedOutAt = undefined
 
     // Remove the monkey-patching.
     client.query = query
@@ -416,6 +749,50 @@ export async function customizeClient(client: Client) {
   return client
 }
 
+/** Statistics about the connection pool. */
+export interface PoolStats {
+  /** The number of clients in the pool, whether idle or checked out. */
+  totalCount: number
+  /** The number of idle clients in the pool. */
+  idleCount: number
+  /** The number of requests waiting for a client because all clients are checked out. */
+  waitingCount: number
+  /** Clients that have been checked out for longer than the leak warning threshold. */
+  longHeldClients: {
+    checkedOutAt: Date
+    /** The time for which the client has been checked out, in milliseconds. */
+    heldFor: number
+    lastQuery?: any[]
+  }[]
+}
+
+/**
+ * Report statistics about the connection pool, for use in health checks and monitoring.
+ *
+ * @param options
+ * @param options.longHeldThreshold The time, in milliseconds, after which a checked-out client is reported as long-
+ *   held. Defaults to the configured leak warning threshold.
+ * @return Statistics about the connection pool.
+ */
+export function getPoolStats(
+    {longHeldThreshold = docorm.config.postgresql.pool.leakWarningThreshold}: {longHeldThreshold?: number} = {}
+): PoolStats {
+  const now = Date.now()
+  const longHeldClients = [...checkedOutClients]
+      .filter((client) => client.checkedOutAt != null && now - client.checkedOutAt > longHeldThreshold)
+      .map((client) => ({
+        checkedOutAt: new Date(client.checkedOutAt as number),
+        heldFor: now - (client.checkedOutAt as number),
+        lastQuery: client.lastQuery
+      }))
+  return {
+    totalCount: pool?.totalCount || 0,
+    idleCount: pool?.idleCount || 0,
+    waitingCount: pool?.waitingCount || 0,
+    longHeldClients
+  }
+}
+
 export async function closePool() {
   if (pool) {
     await pool.end()
@@ -0,0 +1,325 @@
+/**
+ * Schema migrations for entity type tables
+ *
+ * Migrations are generated by comparing the mappings of registered entity types with the live PostgreSQL catalog. Each
+ * migration is a versioned SQL file. Applied migrations are recorded in a migrations table, whose name is given by
+ * the migrations.table configuration setting.
+ *
+ * @module lib/db/postgresql/migrations
+ */
+
+import {mkdir, readdir, readFile, writeFile} from 'fs/promises'
+import _ from 'lodash'
+import path from 'path'
+
+import * as db from './db.js'
+import {Client, quoteIdentifier} from './db.js'
+import {sqlColumnFromPath} from './raw-dao.js'
+import {EntityType, getEntityTypes, IndexDefinition, PropertyMapping} from '../entity-types.js'
+import {PersistenceError} from '../errors.js'
+import {docorm} from '../index.js'
+import logger from '../logger.js'
+
+/** PostgreSQL truncates identifiers longer than this. */
+const MAX_IDENTIFIER_LENGTH = 63
+
+const MIGRATION_FILENAME_PATTERN = /^(\d{14})_(.+)\.sql$/
+
+/** A migration file in the migrations directory. */
+export interface MigrationFile {
+  /** The migration version, a UTC timestamp of the form YYYYMMDDHHMMSS. */
+  version: string
+  name: string
+  path: string
+}
+
+/** The desired structure of one table, merged from all the entity types stored in it. */
+interface TableDefinition {
+  table: string
+  idColumn: string
+  jsonColumn?: string
+  propertyMappings: PropertyMapping[]
+  indexes: IndexDefinition[]
+}
+
+/** The structure of a table as found in the live database catalog. */
+interface LiveTable {
+  columns: string[]
+  indexes: string[]
+}
+
+interface MigrationOptions {
+  client?: Client
+  directory?: string
+}
+
+function getMigrationsDirectory(directory?: string) {
+  const migrationsDirectory = directory || docorm.config.migrations.directory
+  if (!migrationsDirectory) {
+    throw new PersistenceError('No migrations directory was given, and none is configured.')
+  }
+  return migrationsDirectory
+}
+
+function makeIndexName(table: string, index: IndexDefinition) {
+  if (index.name) {
+    return index.name
+  }
+  const suffix = index.unique ? 'key' : 'idx'
+  const propertyPart = (index.properties && index.properties.length > 0) ?
+      index.properties.map((p) => p.replace(/[^A-Za-z0-9_]+/g, '_')).join('_')
+      : 'document'
+  return `${table}_${propertyPart}`.slice(0, MAX_IDENTIFIER_LENGTH - suffix.length - 1) + `_${suffix}`
+}
+
+function sqlIndexElement(table: TableDefinition, propertyPath: string) {
+  if (propertyPath == '_id') {
+    return quoteIdentifier(table.idColumn)
+  }
+  const propertyMapping = table.propertyMappings.find((m) => m.propertyPath == propertyPath)
+  if (propertyMapping) {
+    return quoteIdentifier(propertyMapping.column)
+  }
+  // Expression indexes need an extra pair of parentheses.
+  return `(${sqlColumnFromPath(propertyPath, {...table, readonly: false, stripMappedProperties: false})})`
+}
+
+function makeCreateIndexStatement(table: TableDefinition, index: IndexDefinition) {
+  const method = index.method || 'btree'
+  let elements: string[]
+  if (index.properties && index.properties.length > 0) {
+    elements = index.properties.map((p) => sqlIndexElement(table, p))
+  } else if (method == 'gin' && table.jsonColumn) {
+    elements = [quoteIdentifier(table.jsonColumn)]
+  } else {
+    throw new PersistenceError('Index definition has no properties.', {table: table.table, index})
+  }
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(makeIndexName(table.table, index))}`
+      + ` ON ${quoteIdentifier(table.table)} USING ${method} (${elements.join(', ')})`
+}
+
+/**
+ * Collect the desired table definitions from all registered entity types.
+ *
+ * Entity types that share a table (such as subtypes of an abstract entity type) contribute their property mappings
+ * and indexes to a single definition. Entity types with read-only or no mappings are skipped.
+ *
+ * @param entityTypes The entity types to consider. Defaults to all registered entity types.
+ * @return An array of table definitions.
+ */
+async function collectTableDefinitions(entityTypes?: EntityType[]): Promise<TableDefinition[]> {
+  const tables: {[table: string]: TableDefinition} = {}
+  for (const entityType of entityTypes || _.values(await getEntityTypes())) {
+    const mapping = entityType.mapping
+    if (!mapping || mapping.readonly) {
+      continue
+    }
+    const table = tables[mapping.table]
+    if (!table) {
+      tables[mapping.table] = {
+        table: mapping.table,
+        idColumn: mapping.idColumn,
+        jsonColumn: mapping.jsonColumn,
+        propertyMappings: [...mapping.propertyMappings],
+        indexes: [...mapping.indexes || []]
+      }
+    } else {
+      if (table.idColumn != mapping.idColumn || table.jsonColumn != mapping.jsonColumn) {
+        throw new PersistenceError(
+          `Entity types stored in table "${mapping.table}" disagree about its ID or JSON column.`,
+          {table: mapping.table, entityTypeName: entityType.name}
+        )
+      }
+      table.propertyMappings = _.uniqBy([...table.propertyMappings, ...mapping.propertyMappings], 'column')
+      table.indexes = _.uniqBy(
+        [...table.indexes, ...mapping.indexes || []],
+        (index) => makeIndexName(mapping.table, index)
+      )
+    }
+  }
+  return _.sortBy(_.values(tables), 'table')
+}
+
+async function inspectTable(table: string, client?: Client): Promise<LiveTable | null> {
+  const {rows: columnRows} = await db.query(
+    'SELECT column_name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1',
+    [table],
+    client
+  )
+  if (columnRows.length == 0) {
+    return null
+  }
+  const {rows: indexRows} = await db.query(
+    'SELECT indexname FROM pg_indexes WHERE schemaname = current_schema() AND tablename = $1',
+    [table],
+    client
+  )
+  return {
+    columns: columnRows.map((row) => row.column_name),
+    indexes: indexRows.map((row) => row.indexname)
+  }
+}
+
+/**
+ * Compare registered entity types with the live database and list the DDL statements needed to bring it up to date.
+ *
+ * Only additive changes are planned: creating missing tables, adding missing mapped columns, and adding missing
+ * indexes. Columns and indexes that exist in the database but not in any entity type are left alone.
+ *
+ * Pending migration files should be applied before planning, since the plan only reflects the live catalog.
+ *
+ * @param entityTypes The entity types to consider. Defaults to all registered entity types.
+ * @param options
+ * @param options.client A database client to use.
+ * @return An array of SQL statements, which is empty if the database is up to date.
+ */
+export async function planMigration(entityTypes?: EntityType[], options: MigrationOptions = {}): Promise<string[]> {
+  const {client} = options
+  const statements: string[] = []
+  for (const table of await collectTableDefinitions(entityTypes)) {
+    const liveTable = await inspectTable(table.table, client)
+    if (!liveTable) {
+      const columnDefinitions = [
+        `${quoteIdentifier(table.idColumn)} uuid PRIMARY KEY`,
+        ...table.jsonColumn ? [`${quoteIdentifier(table.jsonColumn)} jsonb NOT NULL`] : [],
+        ...table.propertyMappings.map((m) => `${quoteIdentifier(m.column)} ${m.columnType}`)
+      ]
+      statements.push(`CREATE TABLE ${quoteIdentifier(table.table)} (\n  ${columnDefinitions.join(',\n  ')}\n)`)
+    } else {
+      for (const propertyMapping of table.propertyMappings) {
+        if (!liveTable.columns.includes(propertyMapping.column)) {
+          statements.push(
+            `ALTER TABLE ${quoteIdentifier(table.table)}`
+                + ` ADD COLUMN ${quoteIdentifier(propertyMapping.column)} ${propertyMapping.columnType}`
+          )
+        }
+      }
+    }
+    for (const index of table.indexes) {
+      if (!liveTable?.indexes.includes(makeIndexName(table.table, index))) {
+        statements.push(makeCreateIndexStatement(table, index))
+      }
+    }
+  }
+  return statements
+}
+
+function makeMigrationVersion(date: Date = new Date()) {
+  return date.toISOString().replace(/[^0-9]/g, '').slice(0, 14)
+}
+
+/**
+ * Generate a migration file containing the changes needed to bring the database up to date.
+ *
+ * @param name A short description of the migration, which becomes part of the filename.
+ * @param options
+ * @param options.client A database client to use when inspecting the database.
+ * @param options.directory The migrations directory. Defaults to the configured migrations directory.
+ * @return The new migration file, or null if the database is already up to date.
+ */
+export async function generateMigration(name: string, options: MigrationOptions = {}): Promise<MigrationFile | null> {
+  const directory = getMigrationsDirectory(options.directory)
+  const statements = await planMigration(undefined, options)
+  if (statements.length == 0) {
+    return null
+  }
+  const version = makeMigrationVersion()
+  const slug = _.kebabCase(name) || 'migration'
+  const migrationPath = path.join(directory, `${version}_${slug}.sql`)
+  await mkdir(directory, {recursive: true})
+  await writeFile(
+    migrationPath,
+    `-- Migration ${version}: ${name}\n-- Generated by DocORM.\n\n${statements.map((s) => `${s};\n`).join('\n')}`
+  )
+  logger().info(`Generated migration ${version}_${slug}`, {path: migrationPath})
+  return {version, name: slug, path: migrationPath}
+}
+
+/**
+ * List the migration files in a directory, in version order.
+ *
+ * @param directory The migrations directory. Defaults to the configured migrations directory.
+ * @return An array of migration files.
+ */
+export async function listMigrations(directory?: string): Promise<MigrationFile[]> {
+  const migrationsDirectory = getMigrationsDirectory(directory)
+  const filenames = (await readdir(migrationsDirectory)).sort()
+  const migrations: MigrationFile[] = []
+  for (const filename of filenames) {
+    const match = filename.match(MIGRATION_FILENAME_PATTERN)
+    if (match) {
+      migrations.push({version: match[1], name: match[2], path: path.join(migrationsDirectory, filename)})
+    }
+  }
+  return migrations
+}
+
+async function ensureMigrationsTable(client: Client) {
+  const table = quoteIdentifier(docorm.config.migrations.table)
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS ${table}`
+        + ' (version text PRIMARY KEY, name text NOT NULL, applied_at timestamptz NOT NULL DEFAULT now())',
+    [],
+    client
+  )
+}
+
+/**
+ * List the versions of migrations that have been applied to the database.
+ *
+ * @param options
+ * @param options.client A database client to use.
+ * @return An array of migration versions, in ascending order.
+ */
+export async function listAppliedMigrations(options: MigrationOptions = {}): Promise<string[]> {
+  const {client} = options
+  const {rows: tableRows} = await db.query(
+    'SELECT to_regclass($1) AS oid',
+    [quoteIdentifier(docorm.config.migrations.table)],
+    client
+  )
+  if (tableRows[0].oid == null) {
+    return []
+  }
+  const {rows} = await db.query(
+    `SELECT version FROM ${quoteIdentifier(docorm.config.migrations.table)} ORDER BY version`,
+    [],
+    client
+  )
+  return rows.map((row) => row.version)
+}
+
+/**
+ * Apply all pending migrations in one transaction.
+ *
+ * The migrations table is locked for the duration of the transaction, so that concurrently starting application
+ * instances do not apply the same migration twice. If any migration fails, none are applied.
+ *
+ * @param options
+ * @param options.directory The migrations directory. Defaults to the configured migrations directory.
+ * @return The versions of the migrations that were applied.
+ */
+export async function runMigrations(options: Omit<MigrationOptions, 'client'> = {}): Promise<string[]> {
+  const migrations = await listMigrations(options.directory)
+  return await db.withTransaction(async (client) => {
+    const appliedVersions: string[] = []
+    await ensureMigrationsTable(client)
+    await db.query(`LOCK TABLE ${quoteIdentifier(docorm.config.migrations.table)} IN EXCLUSIVE MODE`, [], client)
+    const previouslyAppliedVersions = await listAppliedMigrations({client})
+    for (const migration of migrations) {
+      if (previouslyAppliedVersions.includes(migration.version)) {
+        continue
+      }
+      const sql = await readFile(migration.path, 'utf8')
+      await db.query(sql, [], client)
+      await db.query(
+        `INSERT INTO ${quoteIdentifier(docorm.config.migrations.table)} (version, name) VALUES ($1, $2)`,
+        [migration.version, migration.name],
+        client
+      )
+      appliedVersions.push(migration.version)
+      logger().info(`Applied migration ${migration.version}_${migration.name}`)
+    }
+    return appliedVersions
+  })
+}
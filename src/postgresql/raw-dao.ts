@@ -1,18 +1,32 @@
+import jsonPointer from 'json-pointer'
 import _ from 'lodash'
 import QueryStream from 'pg-query-stream'
-import {arrayToDottedPath, type PropertyPath} from 'schema-fun'
-import {Transform} from 'stream'
+import {arrayToDottedPath, type PropertyPath, type PropertyPathStr} from 'schema-fun'
+import {Readable, Transform} from 'stream'
 import {v4 as uuidv4} from 'uuid'
 
+import {encodeCsvRecord, inlineSqlParameters, makeCsvParser, makeNdjsonParser, makeRecordCounter} from './copy.js'
 import * as db from './db.js'
-import {Entity, EntityType, EntityTypeMapping, Id, PropertyMapping} from '../entity-types.js'
-import {PersistenceError} from '../errors.js'
+import {Entity, EntityType, EntityTypeMapping, Id, PropertyMapping, User} from '../entity-types.js'
+import {ConcurrencyConflictError, PersistenceError} from '../errors.js'
+import {isJsonPatch, JsonMergePatch, JsonPatch} from '../json-patch.js'
 import {
+  AggregateMeasure,
+  AggregateResultRow,
+  existenceClauseOperatorAndPath,
   QueryClause,
+  queryClauseIsAll,
   queryClauseIsAnd,
+  queryClauseIsAny,
+  queryClauseIsArray,
+  queryClauseIsBetween,
+  queryClauseIsComparison,
+  queryClauseIsExistence,
   queryClauseIsFullTextSearch,
+  queryClauseIsIn,
   queryClauseIsNot,
   queryClauseIsOr,
+  queryClauseIsPattern,
   QueryExpression,
   queryExpressionIsCoalesce,
   queryExpressionIsConstant,
@@ -22,10 +36,14 @@ import {
   queryExpressionIsOperator,
   queryExpressionIsPath,
   queryExpressionIsRange,
+  queryExpressionIsSize,
   QueryOrder,
+  QueryPathExpression,
+  regExpFromLikePattern,
   SqlClause,
   SqlExpression
 } from '../queries.js'
+import {getQueryFunction, sqlFromQueryFunctionCall} from '../query-functions.js'
 
 const ALLOWED_OPERATORS = ['AND', 'OR', 'NOT']
 const SQL_TYPES = ['boolean']
@@ -36,12 +54,27 @@ export interface FetchResultsStream {
   stream: Transform
 }
 
-export function fetchResultsIsArray(x: FetchResults | FetchResultsStream): x is FetchResults {
+/** One page of results from a fetch with keyset pagination. */
+export interface FetchResultsPage {
+  items: Entity[]
+  /** A cursor pointing at the first item, which can be passed as the before option to fetch the previous page. */
+  startCursor: string | null
+  /** A cursor pointing at the last item, which can be passed as the after option to fetch the next page. */
+  endCursor: string | null
+  /** A flag indicating whether more items lie beyond this page, in the direction of pagination. */
+  hasMore: boolean
+}
+
+export function fetchResultsIsArray(x: FetchResults | FetchResultsStream | FetchResultsPage): x is FetchResults {
   return _.isArray(x)
 }
 
-export function fetchResultsIsStream(x: FetchResults | FetchResultsStream): x is FetchResultsStream {
-  return !_.isArray(x)
+export function fetchResultsIsStream(x: FetchResults | FetchResultsStream | FetchResultsPage): x is FetchResultsStream {
+  return !_.isArray(x) && (x as FetchResultsStream).stream != null
+}
+
+export function fetchResultsIsPage(x: FetchResults | FetchResultsStream | FetchResultsPage): x is FetchResultsPage {
+  return !_.isArray(x) && (x as FetchResultsPage).items != null
 }
 
 function sqlExpressionFromQueryExpression(expression: QueryExpression, mapping: EntityTypeMapping, parameterCount = 0): SqlExpression {
@@ -72,21 +105,26 @@ function sqlExpressionFromQueryExpression(expression: QueryExpression, mapping:
       parameterValues: []
     }
   } else if (queryExpressionIsFunction(expression)) {
+    if (!getQueryFunction(expression.function)) {
+      throw new PersistenceError(
+        'Bad JSON query expression: Unknown function',
+        {expression, function: expression.function}
+      )
+    }
+    // Arguments are matched to the template's placeholders by position.
     const subexpressions: string[] = []
     const parameterValues: any[] = []
     for (const jsonSubexpression of expression.parameters || []) {
       const {expression: subexpression, parameterValues: subexpressionParameterValues} =
           sqlExpressionFromQueryExpression(jsonSubexpression, mapping, parameterCount)
-      if (subexpression) {
-        subexpressions.push(subexpression)
-      }
+      subexpressions.push(subexpression)
       if (subexpressionParameterValues) {
         Array.prototype.push.apply(parameterValues, subexpressionParameterValues)
         parameterCount += subexpressionParameterValues.length
       }
     }
     return {
-      expression: `${expression.function}(${subexpressions.join(', ')})`,
+      expression: sqlFromQueryFunctionCall(expression.function, subexpressions),
       parameterValues
     }
   } else if (queryExpressionIsCoalesce(expression)) {
@@ -140,6 +178,12 @@ function sqlExpressionFromQueryExpression(expression: QueryExpression, mapping:
           parameterValues
         }
     }
+  } else if (queryExpressionIsSize(expression)) {
+    const array = sqlJsonbFromPath(expression.size.path, mapping)
+    return {
+      expression: `jsonb_array_length(CASE WHEN jsonb_typeof(${array}) = 'array' THEN ${array} END)`,
+      parameterValues: []
+    }
   } else if (queryExpressionIsRange(expression)) {
     if (!_.isArray(expression.range) || expression.range.length != 2) {
       throw new PersistenceError('Bad JSON query expression', {expression})
@@ -185,7 +229,16 @@ function propertyBlacklistToPhrase(propertyBlacklist: PropertyPath[] | null | un
       : ''
 }
 
-function propertyPathStringToArray(pathStr: string, quoteNonIndexElements: boolean): (string | number)[] {
+/**
+ * Split a property path into its components.
+ *
+ * @param pathStr The path, in which components are separated by dots and array indices are enclosed in brackets, as in
+ *   `a.b[0].c`.
+ * @param quoteNonIndexElements A flag indicating whether to enclose components other than array indices in single
+ *   quotes.
+ * @return The components. Array indices are numbers.
+ */
+export function propertyPathStringToArray(pathStr: string, quoteNonIndexElements: boolean): (string | number)[] {
   return _.flatten(
     pathStr.split('.').map((component: string) => {
       const arrayIndices: number[] = []
@@ -201,7 +254,7 @@ function propertyPathStringToArray(pathStr: string, quoteNonIndexElements: boole
 }
 
 // TODO Perhaps support arrays etc. in paths.
-function sqlColumnFromPath(path: string, mapping: EntityTypeMapping) {
+export function sqlColumnFromPath(path: string, mapping: EntityTypeMapping) {
   const propertyMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == path)
   if (propertyMapping) {
     return propertyMapping.column
@@ -276,9 +329,56 @@ function sqlQueryCriteriaClauseFromQueryClause(
       // Always false
       return {sqlClause: '0 = 1', parameterValues: []}
     }
+  } else if (queryClauseIsExistence(clause)) {
+    // A JSON property with value null yields a JSON null with #>, but a SQL NULL with ->>.
+    const [operator, {path}] = existenceClauseOperatorAndPath(clause)
+    switch (operator) {
+      case 'exists':
+      case 'notExists':
+        return {
+          sqlClause: `${sqlJsonbFromPath(path, mapping)} IS ${operator == 'exists' ? 'NOT ' : ''}NULL`,
+          parameterValues: []
+        }
+      case 'isNull':
+      case 'isNotNull':
+        return {
+          sqlClause: `${sqlColumnFromPath(path, mapping)} IS ${operator == 'isNotNull' ? 'NOT ' : ''}NULL`,
+          parameterValues: []
+        }
+    }
+    throw new PersistenceError('Bad JSON query clause', {clause})
+  } else if (queryClauseIsAny(clause) || queryClauseIsAll(clause)) {
+    // A missing array has no elements. In lax mode, $[*] treats a value that is not an array as an array of one
+    // element.
+    const arrayPath = queryClauseIsAny(clause) ? clause.any.path : clause.all.path
+    const variables: {[name: string]: any} = {}
+    const filter = jsonPathFilterFromQueryClause(clause.where, variables)
+    const jsonPath = queryClauseIsAny(clause) ? `$[*] ? (${filter})` : `$[*] ? (!(${filter}))`
+    return {
+      sqlClause: `${queryClauseIsAny(clause) ? '' : 'NOT '}jsonb_path_exists(`
+          + `COALESCE(${sqlJsonbFromPath(arrayPath, mapping)}, '[]'::jsonb),`
+          + ` $${parameterCount + 1}::jsonpath, $${parameterCount + 2}::jsonb)`,
+      parameterValues: [jsonPath, JSON.stringify(variables)]
+    }
+  } else if (queryClauseIsArray(clause)) {
+    const array = sqlJsonbFromPath(clause.l.path, mapping)
+    switch (clause.operator) {
+      case 'contains':
+      case 'containedBy':
+        return {
+          sqlClause: `${array} ${clause.operator == 'contains' ? '@>' : '<@'} $${parameterCount + 1}::jsonb`,
+          parameterValues: [JSON.stringify(clause.r.constant)]
+        }
+      case 'overlaps':
+        return {
+          sqlClause: `${array} ?| $${parameterCount + 1}::text[]`,
+          parameterValues: [clause.r.constant.filter((value) => value != null).map(String)]
+        }
+    }
+    throw new PersistenceError('Bad JSON query clause', {clause})
   //} else if (queryClauseIsFullTextSearch(clause)) {
   } else {
-    if (!queryClauseIsFullTextSearch(clause)) {
+    if (!queryClauseIsFullTextSearch(clause) && !queryClauseIsPattern(clause)) {
       // TODO The condition below used to be queryExpressionIsConstant(clause.l) && !queryExpressionIsConstant(clause.r).
       if (queryExpressionIsConstant(clause.l) && queryExpressionIsPath(clause.r)) {
         const swapTemp = clause.l
@@ -308,7 +408,27 @@ function sqlQueryCriteriaClauseFromQueryClause(
           // TODO Maybe we can support cases where the left side is constant: '"CONSTANTSTRING" contains column'
           break
         case 'like':
+        case 'ilike':
+        case 'not like':
+        case 'not ilike':
+          operator = clause.operator.toUpperCase()
+          clauseWrapper = (sqlClause) => `${sqlClause} ESCAPE '\\'`
+          break
+        case 'starts with':
+        case 'ends with': {
+          // Escape the prefix or suffix, so that none of its characters are special in the LIKE pattern.
           operator = 'LIKE'
+          const escapeLikePattern = (expr: string) => `regexp_replace(${expr}, '([%_\\\\])', '\\\\\\1', 'g')`
+          rightWrapper = clause.operator == 'starts with' ?
+              (expr) => `${escapeLikePattern(expr)} || '%'`
+              : (expr) => `'%' || ${escapeLikePattern(expr)}`
+          clauseWrapper = (sqlClause) => `${sqlClause} ESCAPE '\\'`
+          break
+        }
+        case '~*':
+        case '!~':
+        case '!~*':
+          operator = clause.operator
           break
         case '=':
         case undefined:
@@ -387,7 +507,192 @@ function sqlQueryCriteriaClauseFromQueryClause(
   }
 }
 
-function makeSqlQueryCriteriaClauses(entityType: EntityType, query?: QueryClause) {
+/**
+ * Make the SQL/JSON path expression for a property path, relative to the current item (@) of a JSON path filter.
+ *
+ * @param path The property path. The empty path refers to the current item itself.
+ * @return The SQL/JSON path expression.
+ */
+function jsonPathFromQueryPath(path: string) {
+  if (path == '') {
+    return '@'
+  }
+  return '@' + propertyPathStringToArray(path, false)
+      .map((component) => typeof component == 'number' ? `[${component}]` : `.${JSON.stringify(component)}`)
+      .join('')
+}
+
+/**
+ * Make the SQL/JSON path expression for an operand in the subclause of an any or all clause.
+ *
+ * @param expression The query expression, which must be a path, constant or size expression.
+ * @param variables The JSON path variables, to which a constant's value is added.
+ * @return The SQL/JSON path expression.
+ */
+function jsonPathOperandFromQueryExpression(expression: QueryExpression, variables: {[name: string]: any}) {
+  if (queryExpressionIsPath(expression)) {
+    return jsonPathFromQueryPath(expression.path)
+  } else if (queryExpressionIsConstant(expression)) {
+    if (expression.constant == null) {
+      return 'null'
+    }
+    const name = `v${Object.keys(variables).length}`
+    variables[name] = expression.constant
+    return `$${name}`
+  } else if (queryExpressionIsSize(expression)) {
+    return `${jsonPathFromQueryPath(expression.size.path)}.size()`
+  }
+  throw new PersistenceError(
+    'Bad JSON query expression: Not supported in the subclause of an any or all clause',
+    {expression}
+  )
+}
+
+/**
+ * Translate the subclause of an any or all clause into a SQL/JSON path filter, which is applied to each array element.
+ *
+ * Constants are passed as JSON path variables. Full-text search and array comparisons are not supported, and pattern
+ * operators require constant patterns.
+ *
+ * @param clause The query clause, whose paths are relative to the array element.
+ * @param variables The JSON path variables, to which constants' values are added.
+ * @return The SQL/JSON path filter expression.
+ */
+function jsonPathFilterFromQueryClause(clause: QueryClause, variables: {[name: string]: any}): string {
+  const operand = (expression: QueryExpression) => jsonPathOperandFromQueryExpression(expression, variables)
+  const isNull = (operandPath: string) => `(!exists(${operandPath}) || ${operandPath} == null)`
+  if (clause == null || clause === true) {
+    return '(1 == 1)'
+  } else if (clause === false) {
+    return '(1 == 0)'
+  } else if (queryClauseIsAnd(clause) || queryClauseIsOr(clause)) {
+    const subclauses = queryClauseIsAnd(clause) ? clause.and : clause.or
+    if (subclauses.length == 0) {
+      return queryClauseIsAnd(clause) ? '(1 == 1)' : '(1 == 0)'
+    }
+    const joinOperator = queryClauseIsAnd(clause) ? ' && ' : ' || '
+    return '(' + subclauses.map((subclause) => jsonPathFilterFromQueryClause(subclause, variables)).join(joinOperator)
+        + ')'
+  } else if (queryClauseIsNot(clause)) {
+    return `!(${jsonPathFilterFromQueryClause(clause.not, variables)})`
+  } else if (queryClauseIsExistence(clause)) {
+    const [operator, {path}] = existenceClauseOperatorAndPath(clause)
+    const operandPath = jsonPathFromQueryPath(path)
+    switch (operator) {
+      case 'exists':
+        return `exists(${operandPath})`
+      case 'notExists':
+        return `!exists(${operandPath})`
+      case 'isNull':
+        return isNull(operandPath)
+      case 'isNotNull':
+        return `!${isNull(operandPath)}`
+    }
+  } else if (queryClauseIsAny(clause) || queryClauseIsAll(clause)) {
+    const arrayPath = jsonPathFromQueryPath(queryClauseIsAny(clause) ? clause.any.path : clause.all.path)
+    const filter = jsonPathFilterFromQueryClause(clause.where, variables)
+    return queryClauseIsAny(clause) ? `exists(${arrayPath}[*] ? (${filter}))`
+        : `!exists(${arrayPath}[*] ? (!(${filter})))`
+  } else if (queryClauseIsPattern(clause)) {
+    const left = operand(clause.l)
+    if (!queryExpressionIsConstant(clause.r) || typeof clause.r.constant != 'string') {
+      throw new PersistenceError(
+        'Bad JSON query clause: Patterns in the subclause of an any or all clause must be constant strings',
+        {clause}
+      )
+    }
+    const pattern = clause.r.constant
+    const likeRegex = (regExpSource: string, caseInsensitive: boolean) =>
+      `${left} like_regex ${JSON.stringify(regExpSource)}${caseInsensitive ? ' flag "i"' : ''}`
+    switch (clause.operator) {
+      case 'like':
+      case 'ilike':
+        return `(${likeRegex(regExpFromLikePattern(pattern).source, clause.operator == 'ilike')})`
+      case 'not like':
+      case 'not ilike':
+        return `!(${likeRegex(regExpFromLikePattern(pattern).source, clause.operator == 'not ilike')})`
+      case '~':
+      case '~*':
+        return `(${likeRegex(pattern, clause.operator == '~*')})`
+      case '!~':
+      case '!~*':
+        return `!(${likeRegex(pattern, clause.operator == '!~*')})`
+      case 'starts with':
+        return `(${left} starts with ${operand(clause.r)})`
+      case 'ends with':
+        return `(${likeRegex(`${_.escapeRegExp(pattern)}$`, false)})`
+    }
+  } else if (queryClauseIsIn(clause)) {
+    const left = operand(clause.l)
+    const values = clause.r.constant
+    if (values.length == 0) {
+      return '(1 == 0)'
+    }
+    return '(' + values.map((value) => value == null ? isNull(left) : `${left} == ${operand({constant: value})}`)
+        .join(' || ') + ')'
+  } else if (queryClauseIsBetween(clause)) {
+    const left = operand(clause.l)
+    return `(${left} >= ${operand(clause.r.range[0])} && ${left} <= ${operand(clause.r.range[1])})`
+  } else if (queryClauseIsComparison(clause)) {
+    const left = operand(clause.l)
+    const operator = clause.operator || '='
+    const rightIsNull = queryExpressionIsConstant(clause.r) && clause.r.constant == null
+    if (operator == '=' && rightIsNull && queryExpressionIsPath(clause.l)) {
+      return isNull(left)
+    } else if (operator == '!=' && rightIsNull && queryExpressionIsPath(clause.l)) {
+      return `!${isNull(left)}`
+    }
+    return `(${left} ${operator == '=' ? '==' : operator} ${operand(clause.r)})`
+  }
+  throw new PersistenceError(
+    'Bad JSON query clause: Not supported in the subclause of an any or all clause',
+    {clause}
+  )
+}
+
+/**
+ * Make a SQL expression for the JSON value of a property.
+ *
+ * @param path The property path.
+ * @param mapping The entity type's mapping.
+ * @return A SQL expression of type jsonb, which is null if the property is missing.
+ */
+function sqlJsonbFromPath(path: string, mapping: EntityTypeMapping) {
+  const propertyMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == path)
+  if (propertyMapping) {
+    return `to_jsonb("${propertyMapping.column}")`
+  }
+  if (path == '_id') {
+    return `to_jsonb("${mapping.idColumn}")`
+  }
+  if (!mapping.jsonColumn) {
+    throw new PersistenceError(`Entity type has unmapped properties and lacks a JSON column.`, {propertyPath: path})
+  }
+  return `("${mapping.jsonColumn}" #> ${sqlTextArrayLiteral(propertyPathStringToArray(path, false))})`
+}
+
+/**
+ * Which items to include when an entity type uses soft deletes: only items that have not been deleted (the default),
+ * all items, or only deleted items.
+ */
+export type DeletedItemsOption = 'exclude' | 'include' | 'only'
+
+/**
+ * Make a SQL clause that selects items according to whether they have been soft-deleted.
+ *
+ * @param mapping The entity type's mapping.
+ * @param deleted Which items to select.
+ * @return A SQL clause, or null if the entity type does not use soft deletes or if all items are to be selected.
+ */
+function makeSoftDeleteClause(mapping: EntityTypeMapping, deleted: DeletedItemsOption = 'exclude') {
+  if (!mapping.softDelete || deleted == 'include') {
+    return null
+  }
+  const deletedAtExpression = sqlColumnFromPath(mapping.softDelete.deletedAtProperty, mapping)
+  return `${deletedAtExpression} IS ${deleted == 'only' ? 'NOT ' : ''}NULL`
+}
+
+function makeSqlQueryCriteriaClauses(entityType: EntityType, query?: QueryClause, deleted?: DeletedItemsOption) {
   if (!entityType.mapping) {
     throw new PersistenceError(
       `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -400,14 +705,19 @@ function makeSqlQueryCriteriaClauses(entityType: EntityType, query?: QueryClause
   const {sqlClause: querySqlClause = null, parameterValues: queryParameterValues} =
       sqlQueryCriteriaClauseFromQueryClause(query, entityType.mapping, parameterValues.length)
   Array.prototype.push.apply(parameterValues, queryParameterValues)
-  const clauses = [entityTypeClause, querySqlClause].filter(Boolean)
+  const clauses = [entityTypeClause, makeSoftDeleteClause(mapping, deleted), querySqlClause].filter(Boolean)
   return {
     sqlClause: clauses.length > 0 ? '(' + clauses.join(') AND (') + ')' : null,
     parameterValues
   }
 }
 
-function makeSqlQueryCriteriaClausesFromRawWhereClause(entityType: EntityType, whereClause: string | null, whereClauseParameters: any[]) {
+function makeSqlQueryCriteriaClausesFromRawWhereClause(
+    entityType: EntityType,
+    whereClause: string | null,
+    whereClauseParameters: any[],
+    deleted?: DeletedItemsOption
+) {
   if (!entityType.mapping) {
     throw new PersistenceError(
       `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -417,12 +727,35 @@ function makeSqlQueryCriteriaClausesFromRawWhereClause(entityType: EntityType, w
   const mapping = entityType.mapping
   const entityTypeClause = mapping.jsonColumn ? `"${mapping.jsonColumn}"->>\'_type\' = $${whereClauseParameters.length + 1}` : undefined
   const parameterValues = [...whereClauseParameters, ...mapping.jsonColumn ? [entityType.name] : []]
+  const clauses = [entityTypeClause, makeSoftDeleteClause(mapping, deleted), whereClause].filter(Boolean)
   return {
-    sqlClause: '(' + [entityTypeClause, whereClause].filter(Boolean).join(') AND (') + ')',
+    sqlClause: '(' + clauses.join(') AND (') + ')',
     parameterValues
   }
 }
 
+interface SqlOrderElement {
+  expression: string
+  direction: 'asc' | 'desc'
+}
+
+/** An element of a keyset order, which places null values explicitly so that cursors can refer to them. */
+interface SqlKeysetOrderElement extends SqlOrderElement {
+  nulls: 'first' | 'last'
+  /** A flag indicating whether the expression can be null. */
+  nullable: boolean
+}
+
+function sqlOrderElementsFromQueryOrder(mapping: EntityTypeMapping, order: QueryOrder | null | undefined) {
+  return _.map(order || [], (orderElement): SqlOrderElement & {path: string} => {
+    const path = _.isArray(orderElement) ? orderElement[0] : orderElement
+    const direction = (_.isArray(orderElement) && (orderElement.length > 1)
+        && ['asc', 'desc'].includes(orderElement[1].toString().toLowerCase())) ?
+        orderElement[1].toString().toLowerCase() as 'asc' | 'desc' : 'asc'
+    return {path: path.path, expression: sqlExpressionFromQueryExpression(path, mapping).expression, direction}
+  })
+}
+
 function makeQueryOrderPhrase(entityType: EntityType, order: QueryOrder | null | undefined) {
   if (!entityType.mapping) {
     throw new PersistenceError(
@@ -434,42 +767,749 @@ function makeQueryOrderPhrase(entityType: EntityType, order: QueryOrder | null |
   if ((order == null) || (order.length == 0)) {
     return ''
   }
-  const orderPhrases = _.map(order, (orderElement) => {
-    const path = _.isArray(orderElement) ? orderElement[0] : orderElement
-    const direction = (_.isArray(orderElement) && (orderElement.length > 1)
-        && ['asc', 'desc'].includes(orderElement[1].toString().toLowerCase())) ?
-        orderElement[1].toString().toLowerCase() : 'asc'
-    return `${sqlExpressionFromQueryExpression(path, mapping).expression} ${direction}`
-  })
+  const orderPhrases = sqlOrderElementsFromQueryOrder(mapping, order).map((e) => `${e.expression} ${e.direction}`)
   return ` ORDER BY ${orderPhrases.join(', ')}`
 }
 
-function getMappedQueryColumns(mapping: EntityTypeMapping, propertiesToExclude: PropertyPath[]) {
-  const propertyPathsToExclude = propertiesToExclude.map((p) => propertyPathIsString(p) ? p : arrayToDottedPath(p))
+/**
+ * Make the ordering used for keyset pagination.
+ *
+ * This is the requested order with the ID column appended as a tiebreaker, so that every row has a unique position.
+ * Null values come last, whatever the direction.
+ *
+ * @param mapping The entity type's mapping.
+ * @param order The requested order.
+ * @return An array of SQL keyset order elements.
+ */
+function makeKeysetOrder(mapping: EntityTypeMapping, order: QueryOrder | null | undefined): SqlKeysetOrderElement[] {
+  const orderElements = sqlOrderElementsFromQueryOrder(mapping, order)
+  const keysetOrder: SqlKeysetOrderElement[] = orderElements.map(({path, expression, direction}) => ({
+    expression,
+    direction,
+    nulls: 'last',
+    nullable: path != '_id'
+  }))
+  if (!orderElements.some((e) => e.path == '_id')) {
+    keysetOrder.push({expression: `"${mapping.idColumn}"`, direction: 'asc', nulls: 'last', nullable: false})
+  }
+  return keysetOrder
+}
+
+/**
+ * Reverse a keyset order, for fetching the rows that precede a cursor.
+ *
+ * @param keysetOrder The keyset order.
+ * @return The keyset order with every direction and null placement reversed.
+ */
+function reverseKeysetOrder(keysetOrder: SqlKeysetOrderElement[]): SqlKeysetOrderElement[] {
+  return keysetOrder.map((e) => ({
+    ...e,
+    direction: e.direction == 'asc' ? 'desc' : 'asc',
+    nulls: e.nulls == 'last' ? 'first' : 'last'
+  }))
+}
+
+function encodeCursor(values: any[]) {
+  return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+function decodeCursor(cursor: string, keysetOrder: SqlKeysetOrderElement[]): any[] {
+  let values: any
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+  } catch (err) {
+    throw new PersistenceError('Invalid pagination cursor', {cursor}, err)
+  }
+  if (!_.isArray(values) || values.length != keysetOrder.length) {
+    throw new PersistenceError('Pagination cursor does not match the query order', {cursor})
+  }
+  return values
+}
+
+/**
+ * Make a SQL clause that selects rows following a cursor position in a keyset order.
+ *
+ * When no order element can be null and all have the same direction, this is a single row-value comparison, which
+ * PostgreSQL can satisfy with a multicolumn index. Otherwise it is expanded into a disjunction of comparisons, in which
+ * null values are placed as the keyset order specifies.
+ *
+ * @param keysetOrder The keyset order.
+ * @param values The cursor values, one per order element.
+ * @param parameterCount The number of SQL parameters already used by the query.
+ * @return A SQL clause and its parameter values.
+ */
+function makeKeysetClause(keysetOrder: SqlKeysetOrderElement[], values: any[], parameterCount = 0): SqlClause {
+  const parameterValues: any[] = []
+  const parameter = (value: any) => `$${parameterCount + parameterValues.push(value)}`
+  const comparisonOperator = (direction: 'asc' | 'desc') => direction == 'asc' ? '>' : '<'
+  if (!keysetOrder.some((e) => e.nullable) && _.uniq(keysetOrder.map((e) => e.direction)).length == 1) {
+    const left = keysetOrder.map((e) => e.expression).join(', ')
+    const right = values.map(parameter).join(', ')
+    return {
+      sqlClause: `(${left}) ${comparisonOperator(keysetOrder[0].direction)} (${right})`,
+      parameterValues
+    }
+  }
+  const equalTo = (e: SqlKeysetOrderElement, value: any) =>
+    value == null ? `${e.expression} IS NULL` : `${e.expression} = ${parameter(value)}`
+  const after = (e: SqlKeysetOrderElement, value: any) => {
+    if (value == null) {
+      return e.nulls == 'first' ? `${e.expression} IS NOT NULL` : 'FALSE'
+    }
+    const comparison = `${e.expression} ${comparisonOperator(e.direction)} ${parameter(value)}`
+    return (e.nullable && e.nulls == 'last') ? `(${comparison} OR ${e.expression} IS NULL)` : comparison
+  }
+  const disjuncts = keysetOrder.map((element, i) => [
+    ...keysetOrder.slice(0, i).map((e, j) => equalTo(e, values[j])),
+    after(element, values[i])
+  ].join(' AND '))
+  return {sqlClause: `(${disjuncts.join(') OR (')})`, parameterValues}
+}
+
+function propertyPathToString(path: PropertyPath) {
+  return propertyPathIsString(path) ? path : arrayToDottedPath(path)
+}
+
+function propertyPathIsWithin(path: string, ancestorPath: string) {
+  return path == ancestorPath || path.startsWith(`${ancestorPath}.`)
+}
+
+/**
+ * Quote a string as a SQL string literal.
+ *
+ * This is only used for property paths in generated column lists, where query parameters cannot be used.
+ */
+function sqlStringLiteral(value: string) {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function sqlTextArrayLiteral(elements: (string | number)[]) {
+  return sqlStringLiteral(`{${elements.map((e) => `"${e.toString().replace(/["\\]/g, '\\$&')}"`).join(',')}}`)
+}
+
+function getMappedQueryColumns(
+    mapping: EntityTypeMapping,
+    propertiesToExclude: PropertyPath[],
+    propertiesToInclude?: PropertyPath[]
+) {
+  const propertyPathsToExclude = propertiesToExclude.map(propertyPathToString)
+  const propertyPathsToInclude = propertiesToInclude?.map(propertyPathToString)
   return (mapping.propertyMappings || [])
       .filter((m) => !propertyPathsToExclude.includes(m.propertyPath))
+      .filter((m) =>
+        !propertyPathsToInclude || propertyPathsToInclude.some((p) => propertyPathIsWithin(m.propertyPath, p))
+      )
       .map((m) => m.column)
 }
 
-function sqlFetchColumnList(mapping: EntityTypeMapping, propertiesToExclude: PropertyPath[]) {
-  const propertyBlacklistPhrase = propertyBlacklistToPhrase(propertiesToExclude)
+/**
+ * Make a SQL expression that builds a JSON object containing only the requested properties of the JSON column.
+ *
+ * The object's keys are property paths, and rowToEntity reassembles them into a nested document. Mapped properties
+ * are omitted, since they are fetched from their own columns.
+ *
+ * @param mapping The entity type's mapping.
+ * @param propertiesToInclude The property paths to include. The _type property is always included.
+ * @return A SQL expression.
+ */
+function sqlJsonProjection(mapping: EntityTypeMapping, propertiesToInclude: PropertyPath[]) {
+  const propertyPaths = _.uniq(['_type', ...propertiesToInclude.map(propertyPathToString)])
+      .filter((p) => p != '_id')
+      .filter((p) => !(mapping.propertyMappings || []).some((m) => propertyPathIsWithin(p, m.propertyPath)))
+  const objectArguments = propertyPaths.map((p) =>
+    `${sqlStringLiteral(p)}, "${mapping.jsonColumn}" #> ${sqlTextArrayLiteral(propertyPathStringToArray(p, false))}`
+  )
+  return `jsonb_build_object(${objectArguments.join(', ')})`
+}
+
+function sqlFetchColumnList(
+    mapping: EntityTypeMapping,
+    propertiesToExclude: PropertyPath[],
+    propertiesToInclude?: PropertyPath[]
+) {
+  let jsonColumns: string[] = []
+  if (mapping.jsonColumn) {
+    jsonColumns = propertiesToInclude ?
+        [`${sqlJsonProjection(mapping, propertiesToInclude)} AS _docorm_projection`]
+        : [`${mapping.jsonColumn}${propertyBlacklistToPhrase(propertiesToExclude)} AS _docorm_data`]
+  }
   return [
     mapping.idColumn,
-    ...mapping.jsonColumn ? [`${mapping.jsonColumn}${propertyBlacklistPhrase} AS _docorm_data`] : [],
-    ...getMappedQueryColumns(mapping, propertiesToExclude)
+    ...jsonColumns,
+    ...getMappedQueryColumns(mapping, propertiesToExclude, propertiesToInclude)
   ].join(', ')
 }
 
+/** A database row, as an object whose keys are column names. */
+type Row = {[column: string]: any}
+
+/**
+ * Build the column values for a row that stores an entity.
+ *
+ * The JSON column (if any) receives the entity without its _id and with _type set to the entity type name. Each mapped
+ * column receives the value at its property path, or null if the property is absent. If the mapping strips mapped
+ * properties, they are removed from the JSON document.
+ *
+ * @param item The entity to store.
+ * @param id The entity's ID, which may differ from item._id if a new ID has been generated.
+ * @param mapping The entity type's mapping.
+ * @param entityTypeName The entity type name, which is stored in the JSON document's _type property.
+ * @return An object whose keys are column names and whose values are column values.
+ */
+function entityToRow(item: Entity, id: Id, mapping: EntityTypeMapping, entityTypeName: string): Row {
+  const row: Row = {[mapping.idColumn]: id}
+  if (mapping.jsonColumn) {
+    let document = _.assign(_.omit(item, '_id'), {_type: entityTypeName})
+    if (mapping.stripMappedProperties) {
+      // Mapped properties may be nested in objects that belong to the caller, so strip them from a deep copy.
+      document = _.cloneDeep(document)
+      for (const m of mapping.propertyMappings || []) {
+        _.unset(document, m.propertyPath)
+      }
+    }
+    row[mapping.jsonColumn] = document
+  }
+  for (const m of mapping.propertyMappings || []) {
+    const value = _.get(item, m.propertyPath)
+    row[m.column] = value === undefined ? null : value
+  }
+  return row
+}
+
+function getMappedColumns(mapping: EntityTypeMapping) {
+  return (mapping.propertyMappings || []).map((m) => m.column)
+}
+
+function getColumnTypes(mapping: EntityTypeMapping): {[column: string]: string} {
+  return {
+    [mapping.idColumn]: 'uuid',
+    ...mapping.jsonColumn ? {[mapping.jsonColumn]: 'jsonb'} : {},
+    ..._.fromPairs((mapping.propertyMappings || []).map((m) => [m.column, m.columnType]))
+  }
+}
+
+/**
+ * Make the assignments of a SQL UPDATE statement that set or remove individual properties, leaving the rest of each
+ * stored entity unchanged.
+ *
+ * Mapped properties are assigned to their columns. Other properties are set in the JSON column with jsonb_set or
+ * removed from it with #-. Setting a property creates any missing objects that contain it, since jsonb_set would
+ * otherwise leave the document unchanged.
+ *
+ * @param mapping The entity type's mapping.
+ * @param values An object whose keys are property paths and whose values are the new property values. An undefined
+ *   value removes the property.
+ * @param parameterCount The number of SQL parameters that precede this phrase in the statement.
+ * @param incrementVersion A flag indicating whether to increment each entity's version, if the entity type uses
+ *   optimistic concurrency control. Any value given for the version property is then ignored.
+ * @return The SQL assignment phrases and their parameter values.
+ */
+function sqlAssignmentsFromPropertyValues(
+    mapping: EntityTypeMapping,
+    values: {[path: string]: any},
+    parameterCount = 0,
+    incrementVersion = false
+) {
+  const assignments: string[] = []
+  const parameterValues: any[] = []
+  const parameter = (value: any, sqlType: string) => `$${parameterCount + parameterValues.push(value)}::${sqlType}`
+  // Each step maps the SQL expression for the document to the SQL expression for the document after one change.
+  const documentSteps: ((document: string) => string)[] = []
+  const versionProperty = incrementVersion ? mapping.versionProperty : undefined
+  if (versionProperty) {
+    values = _.omit(values, versionProperty)
+  }
+  for (const [path, value] of Object.entries(values)) {
+    const propertyMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == path)
+    if (propertyMapping) {
+      parameterValues.push(db.sqlParameterValue(value, propertyMapping.columnType || undefined))
+      assignments.push(`"${propertyMapping.column}" = $${parameterCount + parameterValues.length}`)
+      if (mapping.stripMappedProperties) {
+        continue
+      }
+    }
+    if (!mapping.jsonColumn) {
+      throw new PersistenceError(`Entity type has unmapped properties and lacks a JSON column.`, {propertyPath: path})
+    }
+    const pathArray = propertyPathStringToArray(path, false).map((element) => element.toString())
+    const pathParameter = parameter(pathArray, 'text[]')
+    if (value === undefined) {
+      documentSteps.push((d) => `(${d} #- ${pathParameter})`)
+    } else {
+      // Replace each missing or scalar ancestor with an empty object.
+      for (let i = 1; i < pathArray.length; i++) {
+        const ancestorPathParameter = parameter(pathArray.slice(0, i), 'text[]')
+        documentSteps.push((d) => `jsonb_set(${d}, ${ancestorPathParameter},`
+            + ` CASE WHEN jsonb_typeof(${d} #> ${ancestorPathParameter}) IN ('object', 'array')`
+            + ` THEN ${d} #> ${ancestorPathParameter} ELSE '{}'::jsonb END)`)
+      }
+      const valueParameter = parameter(JSON.stringify(value), 'jsonb')
+      documentSteps.push((d) => `jsonb_set(${d}, ${pathParameter}, ${valueParameter})`)
+    }
+  }
+  if (versionProperty) {
+    const versionMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == versionProperty)
+    if (versionMapping) {
+      assignments.push(`"${versionMapping.column}" = COALESCE(("${versionMapping.column}")::bigint, 0) + 1`)
+    }
+    if (mapping.jsonColumn && !(versionMapping && mapping.stripMappedProperties)) {
+      const versionPath = sqlTextArrayLiteral(propertyPathStringToArray(versionProperty, false))
+      documentSteps.push((d) => `jsonb_set(${d}, ${versionPath},`
+          + ` to_jsonb(COALESCE(("${mapping.jsonColumn}" #>> ${versionPath})::bigint, 0) + 1))`)
+    }
+  }
+  if (mapping.jsonColumn && documentSteps.length > 0) {
+    // Apply the steps in a chain of lateral subqueries, so that each step can refer to the last result by name.
+    const laterals = documentSteps.map((step, i) => `, LATERAL (SELECT ${step(`d${i}`)} AS d${i + 1}) AS s${i + 1}`)
+    assignments.push(
+      `"${mapping.jsonColumn}" = (SELECT d${documentSteps.length} FROM (SELECT "${mapping.jsonColumn}" AS d0) AS s0`
+          + `${laterals.join('')})`
+    )
+  }
+  return {assignments, parameterValues}
+}
+
+/**
+ * Make the assignments of a SQL UPDATE statement that apply JSON patches or JSON merge patches to stored entities.
+ *
+ * The patch is applied to the stored documents by the database, so that concurrent writers that change different
+ * properties do not overwrite each other's changes. Patch operations on the JSON column become a chain of jsonb_set,
+ * jsonb_insert and #- expressions, each applied to the result of the last. Operations on mapped properties are assigned
+ * to their columns; operations on parts of mapped properties, or on their ancestors, are not supported.
+ *
+ * JSON patch test operations are translated into conditions that are checked against the stored entities before the
+ * patch is applied. JSON patch operations whose locations are missing from the document, as it is when they are
+ * applied, make the patched document null; a location condition then requires it not to be null.
+ *
+ * @param mapping The entity type's mapping.
+ * @param patches The JSON patches or JSON merge patches, which are applied in turn.
+ * @param parameterCount The number of SQL parameters that precede this phrase in the statement.
+ * @return The SQL assignment phrases, the conditions from test operations, the conditions that locations exist and
+ *   their parameter values.
+ */
+function sqlAssignmentsFromPatch(
+    mapping: EntityTypeMapping,
+    patches: (JsonPatch | JsonMergePatch)[],
+    parameterCount = 0
+) {
+  const parameterValues: any[] = []
+  const parameter = (value: any, sqlType: string) => `$${parameterCount + parameterValues.push(value)}::${sqlType}`
+  const columnAssignments: {[column: string]: string} = {}
+  // Each step maps the SQL expression for the document to the SQL expression for the document after one operation.
+  const documentSteps: ((document: string) => string)[] = []
+  const testClauses: string[] = []
+  let checksLocations = false
+  const propertyMappings = mapping.propertyMappings || []
+
+  const findPropertyMapping = (path: string[]) => {
+    if (path.length == 0 || ['_id', '_type'].includes(path[0])) {
+      throw new PersistenceError('A patch cannot change an entity\'s ID or type.', {path: jsonPointer.compile(path)})
+    }
+    const propertyPath = path.join('.')
+    for (const m of propertyMappings) {
+      if (m.propertyPath == propertyPath) {
+        return m
+      } else if (
+        propertyPathIsWithin(propertyPath, m.propertyPath) || propertyPathIsWithin(m.propertyPath, propertyPath)
+      ) {
+        throw new PersistenceError(
+          'A patch cannot change part of a mapped property or a property that contains one.',
+          {path: jsonPointer.compile(path), mappedPropertyPath: m.propertyPath}
+        )
+      }
+    }
+    if (!mapping.jsonColumn) {
+      throw new PersistenceError(`Entity type has unmapped properties and lacks a JSON column.`, {propertyPath})
+    }
+    return undefined
+  }
+
+  // Add a step that leaves the document unchanged if a condition holds, and otherwise makes it null.
+  const requireCondition = (makeCondition: (document: string) => string) => {
+    checksLocations = true
+    documentSteps.push((d) => `CASE WHEN ${makeCondition(d)} THEN ${d} END`)
+  }
+
+  const requireValue = (path: string[]) => {
+    const pathParameter = parameter(path, 'text[]')
+    requireCondition((d) => `(${d} #> ${pathParameter}) IS NOT NULL`)
+  }
+
+  // As in RFC 6902, a value may be added to an object, or to an array at an index up to its length or at the end.
+  const requireParent = (path: string[]) => {
+    const parentPathParameter = parameter(path.slice(0, -1), 'text[]')
+    const lastToken = path[path.length - 1]
+    if (lastToken == '-') {
+      requireCondition((d) => `jsonb_typeof(${d} #> ${parentPathParameter}) = 'array'`)
+    } else if (/^(0|[1-9][0-9]*)$/.test(lastToken)) {
+      const indexParameter = parameter(lastToken, 'numeric')
+      requireCondition((d) => `CASE jsonb_typeof(${d} #> ${parentPathParameter}) WHEN 'object' THEN TRUE`
+          + ` WHEN 'array' THEN ${indexParameter} <= jsonb_array_length(${d} #> ${parentPathParameter}) ELSE FALSE END`)
+    } else {
+      requireCondition((d) => `jsonb_typeof(${d} #> ${parentPathParameter}) = 'object'`)
+    }
+  }
+
+  const addDocumentStep = (
+    path: string[],
+    makeValue: (document: string) => string,
+    mode: 'add' | 'replace' | 'set'
+  ) => {
+    if (mode == 'add') {
+      requireParent(path)
+    } else if (mode == 'replace') {
+      requireValue(path)
+    }
+    const pathParameter = parameter(path, 'text[]')
+    const lastToken = path[path.length - 1]
+    if (mode == 'add' && lastToken == '-') {
+      const parentPathParameter = parameter(path.slice(0, -1), 'text[]')
+      documentSteps.push((d) => `jsonb_set(${d}, ${parentPathParameter},`
+          + ` COALESCE(${d} #> ${parentPathParameter}, '[]'::jsonb) || jsonb_build_array(${makeValue(d)}))`)
+    } else if (mode == 'add' && /^[0-9]+$/.test(lastToken)) {
+      // The token is an array index if the parent is an array, and otherwise an object's property name.
+      const parentPathParameter = parameter(path.slice(0, -1), 'text[]')
+      documentSteps.push((d) => `CASE WHEN jsonb_typeof(${d} #> ${parentPathParameter}) = 'array'`
+          + ` THEN jsonb_insert(${d}, ${pathParameter}, ${makeValue(d)})`
+          + ` ELSE jsonb_set(${d}, ${pathParameter}, ${makeValue(d)}) END`)
+    } else {
+      const createMissing = mode == 'replace' ? ', false' : ''
+      documentSteps.push((d) => `jsonb_set(${d}, ${pathParameter}, ${makeValue(d)}${createMissing})`)
+    }
+  }
+
+  const setValue = (path: string[], value: any, mode: 'add' | 'replace' | 'set') => {
+    const propertyMapping = findPropertyMapping(path)
+    if (propertyMapping) {
+      const parameterValue = db.sqlParameterValue(value, propertyMapping.columnType || undefined)
+      // Every parameter has an explicit type, since a query that checks why a patch failed omits these assignments.
+      columnAssignments[propertyMapping.column] = propertyMapping.columnType ?
+          parameter(parameterValue, propertyMapping.columnType)
+          : `$${parameterCount + parameterValues.push(parameterValue)}`
+      if (mapping.stripMappedProperties) {
+        return
+      }
+    }
+    const valueParameter = parameter(JSON.stringify(value), 'jsonb')
+    addDocumentStep(path, () => valueParameter, mode)
+  }
+
+  const removeValue = (path: string[], mustExist: boolean) => {
+    const propertyMapping = findPropertyMapping(path)
+    if (propertyMapping) {
+      columnAssignments[propertyMapping.column] = 'NULL'
+      if (mapping.stripMappedProperties) {
+        return
+      }
+    }
+    const pathParameter = parameter(path, 'text[]')
+    if (mustExist) {
+      requireValue(path)
+    }
+    documentSteps.push((d) => `(${d} #- ${pathParameter})`)
+  }
+
+  const addMergePatchSteps = (mergePatch: JsonMergePatch, path: string[]) => {
+    for (const [key, value] of Object.entries(mergePatch)) {
+      const propertyPath = [...path, key]
+      if (value === null) {
+        removeValue(propertyPath, false)
+      } else if (_.isPlainObject(value) && !propertyMappings.some((m) => m.propertyPath == propertyPath.join('.'))) {
+        // Replace the property with an empty object unless it is already an object, and then merge into it. If the
+        // property contains mapped properties, the patch is merged into them without replacing it.
+        if (!propertyMappings.some((m) => propertyPathIsWithin(m.propertyPath, propertyPath.join('.')))) {
+          findPropertyMapping(propertyPath)
+          const pathParameter = parameter(propertyPath, 'text[]')
+          documentSteps.push((d) => `jsonb_set(${d}, ${pathParameter},`
+              + ` CASE WHEN jsonb_typeof(${d} #> ${pathParameter}) = 'object' THEN ${d} #> ${pathParameter}`
+              + ` ELSE '{}'::jsonb END)`)
+        }
+        addMergePatchSteps(value, propertyPath)
+      } else {
+        setValue(propertyPath, value, 'set')
+      }
+    }
+  }
+
+  for (const patch of patches) {
+    if (isJsonPatch(patch)) {
+      for (const operation of patch) {
+        const path = jsonPointer.parse(operation.path)
+        switch (operation.op) {
+          case 'add':
+          case 'replace':
+            setValue(path, operation.value, operation.op)
+            break
+          case 'remove':
+            removeValue(path, true)
+            break
+          case 'move':
+          case 'copy': {
+            const from = jsonPointer.parse(operation.from)
+            if (findPropertyMapping(from) || findPropertyMapping(path)) {
+              throw new PersistenceError(
+                `A patch cannot ${operation.op} mapped properties.`,
+                {from: operation.from, path: operation.path}
+              )
+            }
+            requireValue(from)
+            const fromParameter = parameter(from, 'text[]')
+            if (operation.op == 'move') {
+              documentSteps.push((d) => `(${d} #- ${fromParameter})`)
+            }
+            // A moved value is taken from the document as it was before the value was removed.
+            const sourceDocument = operation.op == 'move' ? `d${documentSteps.length - 1}` : null
+            addDocumentStep(path, (d) => `(${sourceDocument || d} #> ${fromParameter})`, 'add')
+            break
+          }
+          case 'test': {
+            const propertyMapping = findPropertyMapping(path)
+            const valueParameter = parameter(JSON.stringify(operation.value), 'jsonb')
+            testClauses.push(propertyMapping ?
+              `COALESCE(to_jsonb("${propertyMapping.column}"), 'null'::jsonb) = ${valueParameter}`
+              : `("${mapping.jsonColumn}" #> ${parameter(path, 'text[]')}) = ${valueParameter}`)
+            break
+          }
+          default:
+            throw new PersistenceError('A JSON patch has an unknown operation.', {operation})
+        }
+      }
+    } else {
+      if (!_.isPlainObject(patch)) {
+        throw new PersistenceError('A JSON merge patch must be an object.')
+      }
+      addMergePatchSteps(patch, [])
+    }
+  }
+
+  // With optimistic concurrency control, every change increments the version.
+  if (mapping.versionProperty) {
+    const versionMapping = propertyMappings.find((m) => m.propertyPath == mapping.versionProperty)
+    if (versionMapping) {
+      columnAssignments[versionMapping.column] = `COALESCE(("${versionMapping.column}")::bigint, 0) + 1`
+    }
+    if (mapping.jsonColumn && !(versionMapping && mapping.stripMappedProperties)) {
+      const versionPathParameter = parameter(propertyPathStringToArray(mapping.versionProperty, false), 'text[]')
+      documentSteps.push((d) => `jsonb_set(${d}, ${versionPathParameter},`
+          + ` to_jsonb(COALESCE((${d} #>> ${versionPathParameter})::bigint, 0) + 1))`)
+    }
+  }
+
+  const assignments = Object.entries(columnAssignments).map(([column, value]) => `"${column}" = ${value}`)
+  const locationClauses: string[] = []
+  if (mapping.jsonColumn && documentSteps.length > 0) {
+    // Apply the steps in a chain of lateral subqueries, so that each step can refer to the last result by name.
+    const laterals = documentSteps.map((step, i) => `, LATERAL (SELECT ${step(`d${i}`)} AS d${i + 1}) AS s${i + 1}`)
+    const patchedDocument =
+        `(SELECT d${documentSteps.length} FROM (SELECT "${mapping.jsonColumn}" AS d0) AS s0${laterals.join('')})`
+    assignments.push(`"${mapping.jsonColumn}" = ${patchedDocument}`)
+    if (checksLocations) {
+      locationClauses.push(`${patchedDocument} IS NOT NULL`)
+    }
+  }
+  return {assignments, testClauses, locationClauses, parameterValues}
+}
+
+/**
+ * Make a RETURNING clause that returns stored rows in a form that {@link rowToEntity} accepts.
+ *
+ * @param mapping The entity type's mapping.
+ * @return The RETURNING clause, with a leading space.
+ */
+function sqlReturningEntityClause(mapping: EntityTypeMapping) {
+  return ` RETURNING *${mapping.jsonColumn ? `, "${mapping.jsonColumn}" AS _docorm_data` : ''}`
+}
+
+/**
+ * SQL types whose values node-postgres returns as strings, so that no precision is lost, although they hold numbers.
+ */
+const NUMERIC_TEXT_COLUMN_TYPES = ['bigint', 'int8', 'numeric', 'decimal']
+
+/**
+ * Convert a mapped column's value to the property value that it stores.
+ *
+ * Values of bigint and numeric columns are converted to numbers, so that they match the properties' schemas. Integers
+ * beyond Number.MAX_SAFE_INTEGER lose precision.
+ *
+ * @param value The column value returned by node-postgres.
+ * @param columnType The column's SQL type.
+ * @return The property value.
+ */
+function propertyValueFromColumnValue(value: any, columnType: string | undefined) {
+  const baseColumnType = (columnType || '').toLowerCase().replace(/\(.*$/, '').trim()
+  return (typeof value == 'string' && NUMERIC_TEXT_COLUMN_TYPES.includes(baseColumnType)) ? Number(value) : value
+}
+
 function rowToEntity(row: any, mapping: EntityTypeMapping): Entity {
   const entity = {...row._docorm_data || {}, _id: row[mapping.idColumn]}
+  if (row._docorm_projection) {
+    // A projection yields null for both missing properties and properties whose value is null. Omit them all.
+    for (const [path, value] of Object.entries(row._docorm_projection)) {
+      if (value !== null) {
+        _.set(entity, path, value)
+      }
+    }
+  }
   for (const m of mapping.propertyMappings || []) {
-    _.set(entity, m.propertyPath, row[m.column])
+    if (m.column in row) {
+      _.set(entity, m.propertyPath, propertyValueFromColumnValue(row[m.column], m.columnType))
+    }
   }
   return entity
 }
 
+/**
+ * The encoding of documents read by importStream or written by exportStream.
+ *
+ * - ndjson: One JSON document per line.
+ * - csv: CSV with a header row, whose columns are the entity type's table columns.
+ * - objects: An object-mode stream of entities. This is supported only by importStream.
+ */
+export type CopyFormat = 'ndjson' | 'csv' | 'objects'
+
+/** Progress of an import or export. */
+export interface CopyProgress {
+  /** The number of items processed so far. */
+  count: number
+}
+
+interface ImportOptions {
+  client?: any,
+  /** The encoding of the source data. The default is ndjson. */
+  format?: CopyFormat,
+  /**
+   * A function called with each item after its ID and type have been set and before it is stored. It may return a
+   * modified item, and it should throw an error to reject an item, which aborts the import.
+   */
+  prepareItem?: (item: Entity) => Entity | void | Promise<Entity | void>,
+  /** A function called periodically with the number of items imported so far, and once at the end. */
+  onProgress?: (progress: CopyProgress) => void,
+  /** The number of items between progress reports. The default is 1000. */
+  progressInterval?: number
+}
+
+interface ExportOptions {
+  client?: any,
+  /** The encoding of the exported data, either ndjson or csv. The default is ndjson. */
+  format?: Exclude<CopyFormat, 'objects'>,
+  /** Which items to export if the entity type uses soft deletes. The default is to exclude deleted items. */
+  deleted?: DeletedItemsOption,
+  /** A function called periodically with the number of items exported so far, and once at the end. */
+  onProgress?: (progress: CopyProgress) => void,
+  /** The number of items between progress reports. The default is 1000. */
+  progressInterval?: number
+}
+
+const DEFAULT_PROGRESS_INTERVAL = 1000
+
+/**
+ * Make a SQL expression that assembles a stored entity, including its ID and mapped properties, as a jsonb document.
+ *
+ * @param mapping The entity type's mapping.
+ * @return The SQL expression.
+ */
+function sqlDocumentExpression(mapping: EntityTypeMapping) {
+  let expression = mapping.jsonColumn ? `"${mapping.jsonColumn}"` : `'{}'::jsonb`
+  for (const m of mapping.propertyMappings || []) {
+    const path = sqlTextArrayLiteral(propertyPathStringToArray(m.propertyPath, false))
+    expression = `jsonb_set(${expression}, ${path}, COALESCE(to_jsonb("${m.column}"), 'null'::jsonb))`
+  }
+  return `(${expression} || jsonb_build_object('_id', "${mapping.idColumn}"))`
+}
+
+function columnValueFromCsvField(value: string | null, columnType: string) {
+  if (value == null) {
+    return null
+  }
+  switch (columnType) {
+    case 'bigint':
+    case 'double precision':
+    case 'integer':
+    case 'numeric':
+      return Number(value)
+    case 'boolean':
+      return ['t', 'true'].includes(value.toLowerCase())
+    case 'jsonb':
+      return JSON.parse(value)
+    default:
+      return value
+  }
+}
+
+/**
+ * Make a transform stream that converts CSV records, whose first record names the table columns, to entities.
+ *
+ * @param mapping The entity type's mapping.
+ * @return A transform stream whose input is CSV records and whose output is entities.
+ */
+function makeCsvRecordToEntityTransform(mapping: EntityTypeMapping) {
+  const columnTypes = getColumnTypes(mapping)
+  let header: string[] | null = null
+  return new Transform({
+    objectMode: true,
+    transform: (record: (string | null)[], _encoding, callback) => {
+      if (!header) {
+        header = record.map((column) => column || '')
+        callback()
+        return
+      }
+      try {
+        const row: Row = {}
+        header.forEach((column, i) => {
+          row[column] = columnValueFromCsvField(record[i] ?? null, columnTypes[column] || 'text')
+        })
+        if (mapping.jsonColumn) {
+          row._docorm_data = row[mapping.jsonColumn]
+        }
+        const entity = rowToEntity(row, mapping)
+        // Items without IDs receive new IDs when they are imported.
+        callback(null, entity._id == null ? _.omit(entity, '_id') : entity)
+      } catch (err) {
+        callback(err as Error)
+      }
+    }
+  })
+}
+
 interface CountOptions {
+  client?: any,
+  /** Which items to count if the entity type uses soft deletes. The default is to exclude deleted items. */
+  deleted?: DeletedItemsOption
+}
+
+interface AggregateOptions<Measures extends readonly AggregateMeasure[]> {
   client?: any
+  deleted?: DeletedItemsOption
+  groupBy?: QueryPathExpression[]
+  measures: Measures
+}
+
+function sqlAggregateFromMeasure(measure: AggregateMeasure, mapping: EntityTypeMapping) {
+  const expression = measure.path ? sqlColumnFromPath(measure.path, mapping) : null
+  switch (measure.function) {
+    case 'count':
+      return expression ? `count(${expression})` : 'count(*)'
+    case 'sum':
+    case 'avg':
+    case 'min':
+    case 'max':
+      if (!expression) {
+        throw new PersistenceError(`The aggregate function ${measure.function} requires a path.`, {measure})
+      }
+      return (['sum', 'avg'].includes(measure.function) || measure.type == 'number') ?
+          `${measure.function}((${expression})::numeric)`
+          : `${measure.function}(${expression})`
+    default:
+      throw new PersistenceError('Bad aggregate measure: Unknown function', {measure})
+  }
+}
+
+function measureValueFromSql(measure: AggregateMeasure, value: any) {
+  // PostgreSQL returns bigint and numeric values as strings.
+  if (value != null && (['count', 'sum', 'avg'].includes(measure.function) || measure.type == 'number')) {
+    return Number(value)
+  }
+  return value
 }
 
 /** Options for calls to fetch, as passed by the caller. */
@@ -480,7 +1520,33 @@ interface FetchOptionsInput {
   limit?: number,
   stream?: any,
   propertyBlacklist?: PropertyPath[],
-  idsOnly?: boolean
+  idsOnly?: boolean,
+  /** A cursor from a previous page. If present, only items following the cursor in the query order are fetched. */
+  after?: string,
+  /** A cursor from a previous page. If present, only items preceding the cursor in the query order are fetched. */
+  before?: string,
+  /**
+   * A flag indicating whether to return a page of results with cursors, instead of an array. Pages place items whose
+   * order properties are null after all others, whatever the order direction.
+   */
+  paginate?: boolean,
+  /**
+   * Property paths to fetch. If present, only these properties (together with _id and _type) are fetched, instead of
+   * entire documents.
+   */
+  properties?: PropertyPath[],
+  /** Which items to fetch if the entity type uses soft deletes. The default is to exclude deleted items. */
+  deleted?: DeletedItemsOption
+}
+
+/** Options for calls to delete and deleteOneById. */
+interface DeleteOptions {
+  client?: any,
+  /**
+   * The user performing the deletion, which is recorded if the entity type uses soft deletes. If absent, the user is
+   * taken from the CLS context.
+   */
+  user?: User
 }
 
 /** Options for calls to fetch, with optional parameters supplied by defaults. */
@@ -499,6 +1565,278 @@ const FETCH_DEFAULT_OPTIONS: FetchOptions = {
   idsOnly: false
 }
 
+/**
+ * Run a fetch query and return its results as an array, a stream, or a page with cursors.
+ *
+ * @param entityType The entity type to fetch.
+ * @param mapping The entity type's mapping.
+ * @param criteria The SQL criteria clause and its parameter values.
+ * @param options Fetch options.
+ * @return The fetch results.
+ */
+async function fetchRows(
+    entityType: EntityType,
+    mapping: EntityTypeMapping,
+    criteria: SqlClause,
+    options: FetchOptionsInput
+): Promise<FetchResults | FetchResultsStream | FetchResultsPage> {
+  const {after, before, paginate} = options
+  if (after && before) {
+    throw new PersistenceError('A fetch cannot have both an after cursor and a before cursor.')
+  }
+  if (paginate && options.stream) {
+    throw new PersistenceError('Paginated fetches cannot return streams.')
+  }
+  const useKeyset = !!(after || before || paginate)
+
+  let columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [], options.properties)
+  const offsetPhrase = options.offset ? ` OFFSET ${options.offset}` : ''
+  // When returning a page, fetch one extra row to find out whether there are more.
+  const limit = (options.limit && paginate) ? options.limit + 1 : options.limit
+  const limitPhrase = limit ? ` LIMIT ${limit}` : ''
+  const clauses = [criteria.sqlClause].filter(Boolean)
+  const parameterValues = [...criteria.parameterValues]
+  let orderPhrase = ''
+  let keysetOrder: SqlKeysetOrderElement[] = []
+  if (useKeyset) {
+    keysetOrder = makeKeysetOrder(mapping, options.order)
+    columns += ', ' + keysetOrder.map((e, i) => `${e.expression} AS _docorm_cursor_${i}`).join(', ')
+    // To fetch the page before a cursor, fetch in reverse order and then reverse the results.
+    const effectiveOrder = before ? reverseKeysetOrder(keysetOrder) : keysetOrder
+    const cursor = after || before
+    if (cursor) {
+      const {sqlClause: keysetClause, parameterValues: keysetParameterValues} =
+          makeKeysetClause(effectiveOrder, decodeCursor(cursor, keysetOrder), parameterValues.length)
+      clauses.push(keysetClause)
+      parameterValues.push(...keysetParameterValues)
+    }
+    const orderPhrases = effectiveOrder.map((e) => `${e.expression} ${e.direction} NULLS ${e.nulls.toUpperCase()}`)
+    orderPhrase = ` ORDER BY ${orderPhrases.join(', ')}`
+  } else {
+    orderPhrase = makeQueryOrderPhrase(entityType, options.order)
+  }
+  const whereClause = clauses.length > 0 ? ` WHERE (${clauses.join(') AND (')})` : ''
+  const sqlQuery = `SELECT ${columns} FROM "${mapping.table}"${whereClause}${orderPhrase}${offsetPhrase}${limitPhrase}`
+
+  if (options.stream) {
+    const rowToItem = new Transform({
+      objectMode: true,
+      transform: (row, _, callback) => callback(null, rowToEntity(row, mapping))
+    })
+    const queryStream = await db.queryStream(sqlQuery, parameterValues, options.client)
+    return {run: queryStream.run, stream: queryStream.stream.pipe(rowToItem)}
+  }
+
+  let {rows} = await db.query(sqlQuery, parameterValues, options.client)
+  const hasMore = !!(paginate && options.limit && rows.length > options.limit)
+  if (hasMore) {
+    rows = rows.slice(0, options.limit)
+  }
+  if (before) {
+    rows.reverse()
+  }
+  const items = rows.map((row) => rowToEntity(row, mapping))
+  if (!paginate) {
+    return items
+  }
+  const cursorFromRow = (row: any) => encodeCursor(keysetOrder.map((e, i) => row[`_docorm_cursor_${i}`]))
+  return {
+    items,
+    startCursor: rows.length > 0 ? cursorFromRow(rows[0]) : null,
+    endCursor: rows.length > 0 ? cursorFromRow(rows[rows.length - 1]) : null,
+    hasMore
+  }
+}
+
+/**
+ * Mark the items matching some criteria as deleted, recording the deletion time and user.
+ *
+ * Items that have already been deleted are left unchanged.
+ *
+ * @param mapping The entity type's mapping, which must have soft deletes enabled.
+ * @param criteria The SQL criteria clause and its parameter values.
+ * @param options Delete options.
+ * @return The items that were marked as deleted, as stored after the deletion.
+ */
+async function softDeleteRows(
+    mapping: EntityTypeMapping,
+    criteria: SqlClause,
+    options: DeleteOptions
+): Promise<Entity[]> {
+  if (!mapping.softDelete) {
+    return []
+  }
+  const user = options.user || db.getClsContext().user
+  const {assignments, parameterValues: assignmentParameterValues} = sqlAssignmentsFromPropertyValues(mapping, {
+    [mapping.softDelete.deletedAtProperty]: new Date().toISOString(),
+    [mapping.softDelete.deletedByProperty]: user?._id || null
+  }, criteria.parameterValues.length)
+  const clauses = [criteria.sqlClause, makeSoftDeleteClause(mapping, 'exclude')].filter(Boolean)
+  const {rows} = await db.query(
+    `UPDATE "${mapping.table}" SET ${assignments.join(', ')} WHERE (${clauses.join(') AND (')})`
+        + sqlReturningEntityClause(mapping),
+    [...criteria.parameterValues, ...assignmentParameterValues],
+    options.client
+  )
+  return rows.map((row) => rowToEntity(row, mapping))
+}
+
+/** Changes to make to items' properties. */
+export interface PropertyChanges {
+  /** New property values, by property path. */
+  set?: {[path: string]: any}
+  /** Paths of properties to remove. */
+  unset?: PropertyPathStr[]
+}
+
+/** The outcome of upserting one item. */
+export interface UpsertResult {
+  item: Entity
+  /** True if the item was inserted, false if an existing item was updated. */
+  inserted: boolean
+}
+
+interface UpsertOptions {
+  client?: any,
+  /**
+   * Property paths whose values identify an existing item. They must be covered by a unique index or constraint. The
+   * default is ['_id'].
+   */
+  conflictOn?: PropertyPathStr[]
+}
+
+/**
+ * Make the SQL expression for a conflict target of an upsert.
+ *
+ * @param path A property path, which may be _id, a mapped property or a property of the JSON document.
+ * @param mapping The entity type's mapping.
+ * @return A column name, or a parenthesized expression that matches an expression index.
+ */
+function sqlConflictTargetFromPath(path: PropertyPathStr, mapping: EntityTypeMapping) {
+  if (path == '_id') {
+    return `"${mapping.idColumn}"`
+  }
+  const propertyMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == path)
+  return propertyMapping ? `"${propertyMapping.column}"` : `(${sqlColumnFromPath(path, mapping)})`
+}
+
+/**
+ * Insert items, or update the items that conflict with them, in one INSERT ... ON CONFLICT DO UPDATE statement.
+ *
+ * When an existing item is updated, its ID is kept, and its version is incremented if the entity type uses optimistic
+ * concurrency control. The items are modified to reflect the stored IDs and versions.
+ *
+ * The statement runs in a transaction, which is rolled back if an item conflicts with a row of another entity type.
+ *
+ * @param entityType The entity type.
+ * @param mapping The entity type's mapping.
+ * @param items The items to upsert. No two may have the same conflict target values.
+ * @param options Upsert options.
+ * @return The outcome for each item, in the order of the items.
+ */
+async function upsertRows(
+    entityType: EntityType,
+    mapping: EntityTypeMapping,
+    items: Entity[],
+    options: UpsertOptions
+): Promise<UpsertResult[]> {
+  const conflictOn = options.conflictOn || ['_id']
+  if (conflictOn.length == 0) {
+    throw new PersistenceError('An upsert must have at least one conflict target.')
+  }
+  for (const item of items) {
+    if (!item._id) {
+      item._id = uuidv4()
+    }
+    item._type = entityType.name
+    if (mapping.versionProperty && _.get(item, mapping.versionProperty) == null) {
+      _.set(item, mapping.versionProperty, 1)
+    }
+  }
+  const columns = [mapping.idColumn, ...mapping.jsonColumn ? [mapping.jsonColumn] : [], ...getMappedColumns(mapping)]
+  const columnTypes = getColumnTypes(mapping)
+  const parameterValues: any[] = []
+  // Each row of values ends with the item's ordinal, so that returned rows can be matched with items.
+  const valuesPhrases = items.map((item, i) => {
+    const row = entityToRow(item, item._id, mapping, entityType.name)
+    const parameters = columns.map((c) => {
+      const parameter = `$${parameterValues.push(db.sqlParameterValue(row[c], columnTypes[c]))}`
+      return columnTypes[c] ? `${parameter}::${columnTypes[c]}` : parameter
+    })
+    return `(${[...parameters, i].join(', ')})`
+  })
+
+  // Keep the existing ID, and increment the existing version instead of using the new item's version.
+  const assignments = _.without(columns, mapping.idColumn).map((c) => `"${c}" = EXCLUDED."${c}"`)
+  let versionExpression: string | null = null
+  if (mapping.versionProperty) {
+    versionExpression = sqlColumnFromPath(mapping.versionProperty, mapping)
+    const nextVersion = `COALESCE((${versionExpression})::bigint, 0) + 1`
+    const versionMapping = (mapping.propertyMappings || []).find((m) => m.propertyPath == mapping.versionProperty)
+    if (versionMapping) {
+      _.pull(assignments, `"${versionMapping.column}" = EXCLUDED."${versionMapping.column}"`)
+      assignments.push(`"${versionMapping.column}" = ${nextVersion}`)
+    }
+    if (mapping.jsonColumn && !(versionMapping && mapping.stripMappedProperties)) {
+      const versionPath = sqlTextArrayLiteral(propertyPathStringToArray(mapping.versionProperty, false))
+      const jsonColumn = `"${mapping.jsonColumn}"`
+      _.pull(assignments, `${jsonColumn} = EXCLUDED.${jsonColumn}`)
+      assignments.push(`${jsonColumn} = jsonb_set(EXCLUDED.${jsonColumn}, ${versionPath}, to_jsonb(${nextVersion}))`)
+    }
+  }
+  const typeClause = mapping.jsonColumn ?
+      ` WHERE "${mapping.table}"."${mapping.jsonColumn}"->>'_type' = $${parameterValues.push(entityType.name)}`
+      : ''
+  const conflictTargets = conflictOn.map((path) => sqlConflictTargetFromPath(path, mapping))
+  const keyColumns = conflictTargets.map((target, i) => `${target} AS _docorm_key_${i}`)
+  const returnedColumns = [
+    `"${mapping.idColumn}" AS _docorm_id`,
+    '(xmax = 0) AS _docorm_inserted',
+    ...versionExpression ? [`${versionExpression} AS _docorm_version`] : [],
+    ...keyColumns
+  ]
+  // An inserted row has its item's ID, and an updated row has its item's conflict target values.
+  const matchClause = [
+    `u._docorm_id = i."${mapping.idColumn}"`,
+    conflictTargets.map((_target, i) => `u._docorm_key_${i} = i._docorm_key_${i}`).join(' AND ')
+  ].join(' OR ')
+  const quotedColumns = columns.map((c) => `"${c}"`).join(', ')
+
+  return await db.withTransaction(async (client) => {
+    const {rows} = await db.query(
+      `WITH _docorm_input AS (`
+          + `SELECT v.*, ${keyColumns.join(', ')}`
+          + ` FROM (VALUES ${valuesPhrases.join(', ')}) AS v(${quotedColumns}, _docorm_ordinal)`
+          + `), _docorm_upserted AS (`
+          + `INSERT INTO "${mapping.table}" (${quotedColumns})`
+          + ` SELECT ${quotedColumns} FROM _docorm_input ORDER BY _docorm_ordinal`
+          + ` ON CONFLICT (${conflictTargets.join(', ')})`
+          + ` DO UPDATE SET ${assignments.join(', ')}${typeClause}`
+          + ` RETURNING ${returnedColumns.join(', ')}`
+          + `) SELECT u.*, i._docorm_ordinal FROM _docorm_upserted AS u JOIN _docorm_input AS i ON ${matchClause}`,
+      parameterValues,
+      client
+    )
+
+    // A conflicting row of another entity type is neither inserted nor updated, so no row is returned for its item.
+    const rowsByOrdinal = _.keyBy(rows, '_docorm_ordinal')
+    return items.map((item, i) => {
+      const row = rowsByOrdinal[i]
+      if (!row) {
+        throw new PersistenceError(
+          'Upsert failed because a conflicting row belongs to another entity type.',
+          {entityTypeName: entityType.name, id: item._id}
+        )
+      }
+      item._id = row._docorm_id
+      if (mapping.versionProperty) {
+        _.set(item, mapping.versionProperty, Number(row._docorm_version))
+      }
+      return {item, inserted: row._docorm_inserted}
+    })
+  }, {client: options.client})
+}
+
 const makeRawDao = function(entityType: EntityType) {
   return {
     entityType,
@@ -518,7 +1856,7 @@ const makeRawDao = function(entityType: EntityType) {
       if (query === false) {
         return 0
       }
-      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query)
+      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query, options.deleted)
       const whereClause = clause ? ` WHERE ${clause}` : ''
       const {rows} = await db.query(
         `SELECT count(*) AS count FROM "${mapping.table}"${whereClause}`, parameterValues, client
@@ -526,7 +1864,19 @@ const makeRawDao = function(entityType: EntityType) {
       return rows[0].count
     },
 
-    fetch: async function(query?: QueryClause, options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS): Promise<FetchResults | FetchResultsStream> {
+    /**
+     * Compute aggregate measures over the items matching a query, optionally grouped by property values.
+     *
+     * @param query The query that selects items to aggregate.
+     * @param options
+     * @param options.groupBy Paths of properties whose values define groups. If empty, there is a single group.
+     * @param options.measures The measures to compute for each group.
+     * @return One result row per group, ordered by the grouping properties.
+     */
+    aggregate: async function<Measures extends readonly AggregateMeasure[]>(
+        query: QueryClause | undefined,
+        options: AggregateOptions<Measures>
+    ): Promise<AggregateResultRow<Measures>[]> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -535,37 +1885,57 @@ const makeRawDao = function(entityType: EntityType) {
       }
       const mapping = entityType.mapping
       if (!mapping.table) {
-        throw new PersistenceError(`fetch failed because type "${entityType.name}" has no table.`)
+        throw new PersistenceError(`aggregate failed because type "${entityType.name}" has no table.`)
+      }
+      const {client, groupBy = [], measures} = options
+      if (measures.length == 0) {
+        throw new PersistenceError('An aggregate query must have at least one measure.')
       }
       if (query === false) {
         return []
       }
-      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [])
-      const offsetPhrase = options.offset ? ` OFFSET ${options.offset}` : ''
-      const limitPhrase = options.limit ? ` LIMIT ${options.limit}` : ''
-      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query)
+      const groupExpressions = groupBy.map((path) => sqlExpressionFromQueryExpression(path, mapping).expression)
+      const columns = [
+        ...groupExpressions.map((expression, i) => `${expression} AS _docorm_group_${i}`),
+        ...measures.map((measure, i) => `${sqlAggregateFromMeasure(measure, mapping)} AS _docorm_measure_${i}`)
+      ]
+      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query, options.deleted)
       const whereClause = clause ? ` WHERE ${clause}` : ''
-      const orderPhrase = makeQueryOrderPhrase(entityType, options.order)
-      if (options.stream) {
-        const rowToItem = new Transform({
-          objectMode: true,
-          transform: (row, _, callback) => callback(null, rowToEntity(row, mapping))
-        })
-        const queryStream = await db.queryStream(
-          `SELECT ${columns} FROM "${mapping.table}"${whereClause}${orderPhrase}${offsetPhrase}${limitPhrase}`,
-          parameterValues,
-          options.client
-        )
-        return {run: queryStream.run, stream: queryStream.stream.pipe(rowToItem)}
-        // return resultsStream.pipe(rowToItem)
-      } else {
-        const {rows} = await db.query(
-          `SELECT ${columns} FROM "${mapping.table}"${whereClause}${orderPhrase}${offsetPhrase}${limitPhrase}`,
-          parameterValues,
-          options.client
+      const groupByPhrase = groupExpressions.length > 0 ?
+          ` GROUP BY ${groupExpressions.map((e, i) => `${i + 1}`).join(', ')}`
+              + ` ORDER BY ${groupExpressions.map((e, i) => `${i + 1}`).join(', ')}`
+          : ''
+      const {rows} = await db.query(
+        `SELECT ${columns.join(', ')} FROM "${mapping.table}"${whereClause}${groupByPhrase}`,
+        parameterValues,
+        client
+      )
+      return rows.map((row) => ({
+        group: _.fromPairs(groupBy.map((path, i) => [path.path, row[`_docorm_group_${i}`]])),
+        measures: _.fromPairs(measures.map((measure, i) => [
+          measure.name,
+          measureValueFromSql(measure, row[`_docorm_measure_${i}`])
+        ])) as AggregateResultRow<Measures>['measures']
+      }))
+    },
+
+    fetch: async function(query?: QueryClause, options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS)
+    : Promise<FetchResults | FetchResultsStream | FetchResultsPage> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
         )
-        return rows.map((row) => rowToEntity(row, mapping))
       }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`fetch failed because type "${entityType.name}" has no table.`)
+      }
+      if (query === false) {
+        return options.paginate ? {items: [], startCursor: null, endCursor: null, hasMore: false} : []
+      }
+      const criteria = makeSqlQueryCriteriaClauses(entityType, query, options.deleted)
+      return await fetchRows(entityType, mapping, criteria, options)
     },
 
     fetchWithSql: async function(
@@ -583,11 +1953,16 @@ const makeRawDao = function(entityType: EntityType) {
       if (!mapping.table) {
         throw new PersistenceError(`fetchWithSql failed because type "${entityType.name} has no table.`)
       }
-      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [])
+      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [], options.properties)
       const offsetPhrase = options.offset ? ` OFFSET ${options.offset}` : ''
       const limitPhrase = options.limit ? ` LIMIT ${options.limit}` : ''
       const {sqlClause: clause, parameterValues} =
-          makeSqlQueryCriteriaClausesFromRawWhereClause(entityType, whereClauseSql, whereClauseParameters)
+          makeSqlQueryCriteriaClausesFromRawWhereClause(
+            entityType,
+            whereClauseSql,
+            whereClauseParameters,
+            options.deleted
+          )
       const whereClause = clause ? ` WHERE ${clause}` : ''
       const orderPhrase = makeQueryOrderPhrase(entityType, options.order)
       const {rows} = await db.query(
@@ -598,7 +1973,8 @@ const makeRawDao = function(entityType: EntityType) {
       return rows.map((row) => rowToEntity(row, mapping))
     },
 
-    fetchAll: async function(options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS) {
+    fetchAll: async function(options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS)
+    : Promise<FetchResults | FetchResultsStream | FetchResultsPage> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -609,31 +1985,8 @@ const makeRawDao = function(entityType: EntityType) {
       if (!mapping.table) {
         throw new PersistenceError(`fetchAll failed because type "${entityType.name} has no table.`)
       }
-      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [])
-      const offsetPhrase = options.offset ? ` OFFSET ${options.offset}` : ''
-      const limitPhrase = options.limit ? ` LIMIT ${options.limit}` : ''
-      const whereClause = mapping.jsonColumn ? ` WHERE "${mapping.jsonColumn}"->>\'_type\' = $1` : ''
-      const parameterValues = mapping.jsonColumn ? [entityType.name] : []
-      const orderPhrase = makeQueryOrderPhrase(entityType, options.order)
-      if (options.stream) {
-        const rowToItem = new Transform({
-          objectMode: true,
-          transform: (row, _, callback) => callback(null, rowToEntity(row, mapping))
-        })
-        const queryStream = await db.queryStream(
-          `SELECT ${columns} FROM "${mapping.table}"${whereClause}${orderPhrase}${offsetPhrase}${limitPhrase}`,
-          parameterValues,
-          options.client
-        )
-        return {run: queryStream.run, stream: queryStream.stream.pipe(rowToItem)}
-      } else {
-        const {rows} = await db.query(
-          `SELECT ${columns} FROM "${mapping.table}"${whereClause}${orderPhrase}${offsetPhrase}${limitPhrase}`,
-          parameterValues,
-          options.client
-        )
-        return rows.map((row) => rowToEntity(row, mapping))
-      }
+      const criteria = makeSqlQueryCriteriaClauses(entityType, undefined, options.deleted)
+      return await fetchRows(entityType, mapping, criteria, options)
     },
 
     fetchById: async function(ids: Id[], options: FetchOptionsInput = FETCH_DEFAULT_OPTIONS) {
@@ -647,13 +2000,15 @@ const makeRawDao = function(entityType: EntityType) {
       if (!mapping.table) {
         throw new PersistenceError(`fetchById failed because type "${entityType.name} has no table.`)
       }
-      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [])
+      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [], options.properties)
       const offsetPhrase = options.offset ? ` OFFSET ${options.offset}` : ''
       const limitPhrase = options.limit ? ` LIMIT ${options.limit}` : ''
       const orderPhrase = makeQueryOrderPhrase(entityType, options.order)
+      const softDeleteClause = makeSoftDeleteClause(mapping, options.deleted)
       const {rows} = await db.query(
         `SELECT ${columns} FROM "${mapping.table}" WHERE "${mapping.idColumn}" = ANY($1)`
             + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>\'_type\' = $2` : '')
+            + (softDeleteClause ? ` AND ${softDeleteClause}` : '')
             + `${orderPhrase}${offsetPhrase}${limitPhrase}`,
         [ids, ...mapping.jsonColumn ? [entityType.name] : []],
         options.client
@@ -663,7 +2018,9 @@ const makeRawDao = function(entityType: EntityType) {
 
     fetchOneById: async function(id: Id, options: {
       client?: any,
-      propertyBlacklist?: PropertyPath[]
+      propertyBlacklist?: PropertyPath[],
+      properties?: PropertyPath[],
+      deleted?: DeletedItemsOption
     } = {}) {
       if (!entityType.mapping) {
         throw new PersistenceError(
@@ -675,10 +2032,12 @@ const makeRawDao = function(entityType: EntityType) {
       if (!mapping.table) {
         throw new PersistenceError(`fetchOneById failed because type "${entityType.name} has no table.`)
       }
-      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [])
+      const columns = sqlFetchColumnList(mapping, options.propertyBlacklist || [], options.properties)
+      const softDeleteClause = makeSoftDeleteClause(mapping, options.deleted)
       const {rows} = await db.query(
         `SELECT ${columns} FROM "${mapping.table}" WHERE "${mapping.idColumn}" = $1`
-            + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>\'_type\' = $2` : ''),
+            + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>\'_type\' = $2` : '')
+            + (softDeleteClause ? ` AND ${softDeleteClause}` : ''),
         [id, ...mapping.jsonColumn ? [entityType.name] : []],
         options.client
       )
@@ -689,8 +2048,7 @@ const makeRawDao = function(entityType: EntityType) {
       }
     },
 
-    // TODO Add support for mapped columns.
-    insertMultipleItems: async function(items: any[]) {
+    insertMultipleItems: async function(items: any[], options: {client?: any} = {}) {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -704,27 +2062,26 @@ const makeRawDao = function(entityType: EntityType) {
       if (items.length > 0) {
         const columns = [
           mapping.idColumn,
-          ...mapping.jsonColumn ? [mapping.jsonColumn] : []
+          ...mapping.jsonColumn ? [mapping.jsonColumn] : [],
+          ...getMappedColumns(mapping)
         ]
-        const rows = items.map((item) => {
-          if (item._id) {
-            return {
-              [mapping.idColumn]: item._id,
-              ...mapping.jsonColumn ? {[mapping.jsonColumn]: _.merge(_.omit(item, '_id'), {_type: entityType.name})} : {}
-            }
-          } else {
-            return {
-              [mapping.idColumn]: uuidv4(),
-              ...mapping.jsonColumn ? {[mapping.jsonColumn]: _.merge(item, {_type: entityType.name})} : {}
-            }
-          }
-        })
-        await db.insertMultipleRows(mapping.table, columns, rows)
+        const rows = items.map((item) => entityToRow(item, item._id || uuidv4(), mapping, entityType.name))
+        await db.insertMultipleRows(mapping.table, columns, rows, getColumnTypes(mapping), options.client)
       }
     },
 
-    // TODO Add support for mapped columns.
-    insert: async function(item: any, options: {client?: any} = {}) {
+    /**
+     * Insert an item.
+     *
+     * The item is given an ID if it lacks one, and its version is initialized if the entity type uses optimistic
+     * concurrency control.
+     *
+     * @param item The item to insert.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The item as stored, including any values set by database defaults or triggers.
+     */
+    insert: async function(item: any, options: {client?: any} = {}): Promise<Entity> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -738,37 +2095,40 @@ const makeRawDao = function(entityType: EntityType) {
       if (!item._id) {
         item._id = uuidv4()
       }
-      const id = item._id
-      item._id = undefined
       item._type = entityType.name
+      if (mapping.versionProperty && _.get(item, mapping.versionProperty) == null) {
+        _.set(item, mapping.versionProperty, 1)
+      }
 
-      const columns = [
-        mapping.idColumn,
-        ...mapping.jsonColumn ? [mapping.jsonColumn] : []
-      ]
-      const parameters = [
-        '$1',
-        ...mapping.jsonColumn ? ['$2'] : []
-      ]
-      const parameterValues = [
-        id,
-        ...mapping.jsonColumn ? [item] : []
-      ]
-      await db.query(
+      const row = entityToRow(item, item._id, mapping, entityType.name)
+      const columns = _.keys(row)
+      const columnTypes = getColumnTypes(mapping)
+      const {rows} = await db.query(
         `INSERT INTO "${mapping.table}"`
             + ` (${columns.map((c) => `"${c}"`).join(', ')})`
-            + ` VALUES (${parameters.join(', ')})`,
-        parameterValues,
+            + ` VALUES (${columns.map((c, i) => `$${i + 1}`).join(', ')})`
+            + sqlReturningEntityClause(mapping),
+        columns.map((c) => db.sqlParameterValue(row[c], columnTypes[c])),
         options.client
       )
 
-      item._id = id
-
-      return item
+      return rowToEntity(rows[0], mapping)
     },
 
-    // TODO Add support for mapped columns.
-    update: async function(item: any, options: {client?: any} = {}) {
+    /**
+     * Update an item, replacing its stored document.
+     *
+     * If the entity type uses optimistic concurrency control, the item's version must match the stored version, and it
+     * is incremented.
+     *
+     * @param item The item to update.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The item as stored, including any values set by database triggers, or null if there is no such item or
+     *   it has been soft-deleted.
+     * @throws ConcurrencyConflictError if the item has been changed since the version it has.
+     */
+    update: async function(item: any, options: {client?: any} = {}): Promise<Entity | null> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -779,30 +2139,90 @@ const makeRawDao = function(entityType: EntityType) {
       if (!mapping.table) {
         throw new PersistenceError(`update failed because type "${entityType.name} has no table.`)
       }
-      const id = item._id
-      item._id = undefined
       item._type = entityType.name
 
-      const parameterValues = [
-        id,
-        ...mapping.jsonColumn ? [item, entityType.name] : []
-      ]
-      if (mapping.jsonColumn) {
-        await db.query(
-          `UPDATE "${mapping.table}" SET "${mapping.jsonColumn}" = $2`
-              + ` WHERE "${mapping.idColumn}" = $1 AND "${mapping.jsonColumn}"->>'_type' = $3`,
+      // With optimistic concurrency control, the stored version must match the version the caller started from.
+      let expectedVersion: number | null = null
+      if (mapping.versionProperty) {
+        const version = _.get(item, mapping.versionProperty)
+        expectedVersion = version == null ? null : Number(version)
+        _.set(item, mapping.versionProperty, (expectedVersion || 0) + 1)
+      }
+
+      const row = entityToRow(item, item._id, mapping, entityType.name)
+      const columnsToUpdate = _.without(_.keys(row), mapping.idColumn)
+      if (columnsToUpdate.length > 0) {
+        const columnTypes = getColumnTypes(mapping)
+        const parameterValues = [item._id, ...columnsToUpdate.map((c) => db.sqlParameterValue(row[c], columnTypes[c]))]
+        const typeClause = mapping.jsonColumn ?
+            ` AND "${mapping.jsonColumn}"->>'_type' = $${parameterValues.push(entityType.name)}`
+            : ''
+        let versionClause = ''
+        if (mapping.versionProperty) {
+          const versionExpression = sqlColumnFromPath(mapping.versionProperty, mapping)
+          versionClause = expectedVersion == null ?
+              ` AND ${versionExpression} IS NULL`
+              : ` AND (${versionExpression})::bigint = $${parameterValues.push(expectedVersion)}`
+        }
+        // A soft-deleted item cannot be updated, since the new document would restore it.
+        const softDeleteClause = mapping.softDelete ? ` AND ${makeSoftDeleteClause(mapping, 'exclude')}` : ''
+        const {rows: updatedRows} = await db.query(
+          `UPDATE "${mapping.table}" SET ${columnsToUpdate.map((c, i) => `"${c}" = $${i + 2}`).join(', ')}`
+              + ` WHERE "${mapping.idColumn}" = $1${typeClause}${versionClause}${softDeleteClause}`
+              + sqlReturningEntityClause(mapping),
           parameterValues,
           options.client
         )
+        if (updatedRows.length > 0) {
+          return rowToEntity(updatedRows[0], mapping)
+        }
+        if (mapping.versionProperty) {
+          _.set(item, mapping.versionProperty, expectedVersion)
+          const {rows} = await db.query(
+            `SELECT ${sqlColumnFromPath(mapping.versionProperty, mapping)} AS version FROM "${mapping.table}"`
+                + ` WHERE "${mapping.idColumn}" = $1`
+                + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>'_type' = $2` : '')
+                + softDeleteClause,
+            [item._id, ...mapping.jsonColumn ? [entityType.name] : []],
+            options.client
+          )
+          if (rows.length > 0) {
+            const currentVersion = rows[0].version == null ? null : Number(rows[0].version)
+            throw new ConcurrencyConflictError(
+              `Update failed because the item has been changed since version ${expectedVersion}.`,
+              currentVersion,
+              expectedVersion,
+              {entityTypeName: entityType.name, id: item._id}
+            )
+          }
+        }
+        return null
       }
 
-      item._id = id
-
       return item
     },
 
-    // TODO Add support for mapped columns.
-    updateMultipleItems: async function(items: any[]) {
+    /**
+     * Apply a JSON patch or JSON merge patch to a stored item.
+     *
+     * The patch is applied by the database, so it only changes the properties it names. If the entity type uses
+     * optimistic concurrency control, the item's version is incremented; to require a particular version, include a
+     * test operation on the version property in a JSON patch.
+     *
+     * @param id The item's ID.
+     * @param patch The JSON patch (RFC 6902) or JSON merge patch (RFC 7396). Test operations are checked against the
+     *   item as it was stored before the patch.
+     * @param options
+     * @param options.client A database client to use.
+     * @param options.additionalPatch A JSON patch to apply after the patch, in the same statement.
+     * @return The patched item, or null if there is no such item.
+     * @throws PersistenceError if a test operation fails or an operation refers to a missing location.
+     */
+    patch: async function(
+        id: Id,
+        patch: JsonPatch | JsonMergePatch,
+        options: {client?: any, additionalPatch?: JsonPatch} = {}
+    ): Promise<Entity | null> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -811,25 +2231,87 @@ const makeRawDao = function(entityType: EntityType) {
       }
       const mapping = entityType.mapping
       if (!mapping.table) {
-        throw new PersistenceError(`updateMultipleItems failed because type "${entityType.name} has no table.`)
+        throw new PersistenceError(`patch failed because type "${entityType.name} has no table.`)
       }
-      const columnsToUpdate = [
-        ...mapping.jsonColumn ? [mapping.jsonColumn] : []
+      const parameterValues = [id, ...mapping.jsonColumn ? [entityType.name] : []]
+      const criteria = [
+        `"${mapping.idColumn}" = $1`,
+        ...mapping.jsonColumn ? [`"${mapping.jsonColumn}"->>'_type' = $2`] : [],
+        ...mapping.softDelete ? [makeSoftDeleteClause(mapping, 'exclude')] : []
       ]
-      const rows = items.map((item) => {
-        if (item._id) {
-          return {
-            [mapping.idColumn]: item._id,
-            ...mapping.jsonColumn ? {[mapping.jsonColumn]: _.merge(_.omit(item, '_id'), {_type: entityType.name})} : {}
+      const {assignments, testClauses, locationClauses, parameterValues: patchParameterValues} =
+          sqlAssignmentsFromPatch(mapping, [patch, options.additionalPatch || []], parameterValues.length)
+      if (assignments.length == 0) {
+        // Still match the row, so that test operations are checked and the item is returned.
+        assignments.push(`"${mapping.idColumn}" = "${mapping.idColumn}"`)
+      }
+      const {rows} = await db.query(
+        `UPDATE "${mapping.table}" SET ${assignments.join(', ')}`
+            + ` WHERE ${[...criteria, ...testClauses, ...locationClauses].join(' AND ')}`
+            + sqlReturningEntityClause(mapping),
+        [...parameterValues, ...patchParameterValues],
+        options.client
+      )
+      if (rows.length == 0) {
+        if (testClauses.length > 0 || locationClauses.length > 0) {
+          // Find out whether the item exists and, if so, whether its test operations succeed.
+          const testsSucceed = testClauses.length > 0 ? `(${testClauses.join(' AND ')})` : 'TRUE'
+          const {rows: existingRows} = await db.query(
+            `SELECT ${testsSucceed} AS _docorm_tests_succeed FROM "${mapping.table}" WHERE ${criteria.join(' AND ')}`,
+            [...parameterValues, ...patchParameterValues],
+            options.client
+          )
+          if (existingRows.length > 0) {
+            throw new PersistenceError(
+              existingRows[0]._docorm_tests_succeed ?
+                  'Patch failed because it refers to a missing location.'
+                  : 'Patch failed because a test operation failed.',
+              {entityTypeName: entityType.name, id}
+            )
           }
-        } else {
-          return null
         }
-      }).filter((row): row is Exclude<typeof row, null> => row !== null)
-      await db.updateMultipleRows(mapping.table, mapping.idColumn, columnsToUpdate, rows)
+        return null
+      }
+      return rowToEntity(rows[0], mapping)
+    },
+
+    updateMultipleItems: async function(items: any[], options: {client?: any} = {}) {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`updateMultipleItems failed because type "${entityType.name} has no table.`)
+      }
+      const columnsToUpdate = [
+        ...mapping.jsonColumn ? [mapping.jsonColumn] : [],
+        ...getMappedColumns(mapping)
+      ]
+      const rows = items.filter((item) => item._id)
+          .map((item) => entityToRow(item, item._id, mapping, entityType.name))
+      if (rows.length > 0) {
+        await db.updateMultipleRows(
+          mapping.table,
+          mapping.idColumn,
+          columnsToUpdate,
+          rows,
+          getColumnTypes(mapping),
+          options.client
+        )
+      }
     },
 
-    deleteOneById: async function(id: Id, options: {client?: any} = {}) {
+    /**
+     * Delete an item, or mark it as deleted if the entity type uses soft deletes.
+     *
+     * @param id The item's ID.
+     * @param options Delete options.
+     * @return The deleted item as it was last stored, or null if there was no such item.
+     */
+    deleteOneById: async function(id: Id, options: DeleteOptions = {}): Promise<Entity | null> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -844,16 +2326,28 @@ const makeRawDao = function(entityType: EntityType) {
         id,
         ...mapping.jsonColumn ? [entityType.name] : []
       ]
-      if (mapping.jsonColumn) {
-        await db.query(
-          `DELETE FROM "${mapping.table}" WHERE "${mapping.idColumn}" = $1 and "${mapping.jsonColumn}"->>'_type' = $2`,
-          parameterValues,
-          options.client
-        )
+      const sqlClause = `"${mapping.idColumn}" = $1`
+          + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>'_type' = $2` : '')
+      if (mapping.softDelete) {
+        const [deletedItem] = await softDeleteRows(mapping, {sqlClause, parameterValues}, options)
+        return deletedItem || null
       }
+      const {rows} = await db.query(
+        `DELETE FROM "${mapping.table}" WHERE ${sqlClause}${sqlReturningEntityClause(mapping)}`,
+        parameterValues,
+        options.client
+      )
+      return rows.length > 0 ? rowToEntity(rows[0], mapping) : null
     },
 
-    delete: async function(query?: QueryClause, options: {client?: any} = {}) {
+    /**
+     * Delete the items that match a query, or mark them as deleted if the entity type uses soft deletes.
+     *
+     * @param query The query that selects items to delete. It may not be empty.
+     * @param options Delete options.
+     * @return The deleted items as they were last stored.
+     */
+    delete: async function(query?: QueryClause, options: DeleteOptions = {}): Promise<Entity[]> {
       if (!entityType.mapping) {
         throw new PersistenceError(
           `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
@@ -869,11 +2363,279 @@ const makeRawDao = function(entityType: EntityType) {
       if (whereClause.length < 1) {
         throw Error(`Attempt to delete all records from table ${mapping.table}`)
       }
-      await db.query(
-        `DELETE FROM "${mapping.table}"${whereClause}`,
+      if (mapping.softDelete) {
+        return await softDeleteRows(mapping, {sqlClause: clause, parameterValues}, options)
+      }
+      const {rows} = await db.query(
+        `DELETE FROM "${mapping.table}"${whereClause}${sqlReturningEntityClause(mapping)}`,
         parameterValues,
         options.client
       )
+      return rows.map((row) => rowToEntity(row, mapping))
+    },
+
+    /**
+     * Set or remove properties of all the items that match a query, in one UPDATE statement.
+     *
+     * If the entity type uses optimistic concurrency control, each updated item's version is incremented.
+     *
+     * @param query The query that selects items to update. It may not be empty.
+     * @param changes The changes to make.
+     * @param options
+     * @param options.client A database client to use.
+     * @return The IDs of the updated items.
+     */
+    updateWhere: async function(
+        query: QueryClause | undefined,
+        changes: PropertyChanges,
+        options: {client?: any} = {}
+    ): Promise<Id[]> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`updateWhere failed because type "${entityType.name} has no table.`)
+      }
+      if (query == null) {
+        throw new PersistenceError(`Attempt to update all records from table ${mapping.table}`)
+      }
+      const values = {
+        ...changes.set || {},
+        ..._.fromPairs((changes.unset || []).map((path) => [path, undefined]))
+      }
+      if (_.isEmpty(values)) {
+        return []
+      }
+      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query)
+      const {assignments, parameterValues: assignmentParameterValues} =
+          sqlAssignmentsFromPropertyValues(mapping, values, parameterValues.length, true)
+      const {rows} = await db.query(
+        `UPDATE "${mapping.table}" SET ${assignments.join(', ')}${clause ? ` WHERE ${clause}` : ''}`
+            + ` RETURNING "${mapping.idColumn}" AS _docorm_id`,
+        [...parameterValues, ...assignmentParameterValues],
+        options.client
+      )
+      return rows.map((row) => row._docorm_id)
+    },
+
+    /**
+     * Insert an item, or update the existing item that has the same values at the conflict target paths.
+     *
+     * This uses a single INSERT ... ON CONFLICT DO UPDATE statement, so it is safe under concurrency.
+     *
+     * @param item The item to upsert.
+     * @param options Upsert options.
+     * @return The stored item and a flag indicating whether it was inserted.
+     */
+    upsert: async function(item: Entity, options: UpsertOptions = {}): Promise<UpsertResult> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`upsert failed because type "${entityType.name} has no table.`)
+      }
+      const [result] = await upsertRows(entityType, mapping, [item], options)
+      return result
+    },
+
+    /**
+     * Upsert multiple items in one statement.
+     *
+     * @param items The items to upsert. No two may have the same values at the conflict target paths.
+     * @param options Upsert options.
+     * @return The stored items and flags indicating whether they were inserted, in the order of the items.
+     */
+    upsertMultipleItems: async function(items: Entity[], options: UpsertOptions = {}): Promise<UpsertResult[]> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`upsertMultipleItems failed because type "${entityType.name} has no table.`)
+      }
+      return items.length > 0 ? await upsertRows(entityType, mapping, items, options) : []
+    },
+
+    /**
+     * Import items from a stream using COPY ... FROM STDIN.
+     *
+     * Each item receives an ID if it lacks one, its type is set, and its version is initialized if the entity type
+     * uses optimistic concurrency control. Mapped properties are written to their columns. Unlike insert, this does not
+     * run database callbacks.
+     *
+     * @param source A readable stream of items, encoded as specified by options.format.
+     * @param options Import options.
+     * @return The number of items imported.
+     */
+    importStream: async function(source: Readable, options: ImportOptions = {}): Promise<CopyProgress> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`importStream failed because type "${entityType.name} has no table.`)
+      }
+      const {format = 'ndjson', prepareItem, onProgress, progressInterval = DEFAULT_PROGRESS_INTERVAL} = options
+      const columns = [
+        mapping.idColumn,
+        ...mapping.jsonColumn ? [mapping.jsonColumn] : [],
+        ...getMappedColumns(mapping)
+      ]
+      const columnTypes = getColumnTypes(mapping)
+      const jsonColumnIndices = columns.map((c, i) => columnTypes[c] == 'jsonb' ? i : -1).filter((i) => i >= 0)
+
+      const progress: CopyProgress = {count: 0}
+      const itemToCsvRecord = new Transform({
+        writableObjectMode: true,
+        transform: (item: Entity, _encoding, callback) => {
+          (async () => {
+            if (!item._id) {
+              item._id = uuidv4()
+            }
+            item._type = entityType.name
+            if (mapping.versionProperty && _.get(item, mapping.versionProperty) == null) {
+              _.set(item, mapping.versionProperty, 1)
+            }
+            if (prepareItem) {
+              item = (await prepareItem(item)) || item
+            }
+            const row = entityToRow(item, item._id, mapping, entityType.name)
+            return encodeCsvRecord(columns.map((c) => row[c]), jsonColumnIndices)
+          })().then((record) => {
+            progress.count++
+            if (onProgress && progress.count % progressInterval == 0) {
+              onProgress({...progress})
+            }
+            callback(null, record)
+          }, (err) => callback(err))
+        }
+      })
+      const decoders = {
+        ndjson: [makeNdjsonParser()],
+        csv: [makeCsvParser(), makeCsvRecordToEntityTransform(mapping)],
+        objects: []
+      }[format]
+      await db.copyFromStream(
+        `COPY "${mapping.table}" (${columns.map((c) => `"${c}"`).join(', ')}) FROM STDIN WITH (FORMAT csv)`,
+        source,
+        [...decoders, itemToCsvRecord],
+        options.client
+      )
+      onProgress?.({...progress})
+      return progress
+    },
+
+    /**
+     * Export the items matching a query to a stream using COPY ... TO STDOUT.
+     *
+     * In NDJSON format, each line is a complete item, including its ID and mapped properties. In CSV format, the
+     * first record names the table columns and each following record contains one item's column values, in the form
+     * accepted by importStream.
+     *
+     * @param query The query that selects items to export. If undefined, all items are exported.
+     * @param options Export options.
+     * @return A readable stream of the exported data.
+     */
+    exportStream: async function(query?: QueryClause, options: ExportOptions = {}): Promise<Readable> {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`exportStream failed because type "${entityType.name} has no table.`)
+      }
+      const {format = 'ndjson', onProgress, progressInterval = DEFAULT_PROGRESS_INTERVAL} = options
+      if (!['ndjson', 'csv'].includes(format)) {
+        throw new PersistenceError(`exportStream does not support the ${format} format.`)
+      }
+      const {sqlClause: clause, parameterValues} = makeSqlQueryCriteriaClauses(entityType, query, options.deleted)
+      const whereClause = clause ? ` WHERE ${clause}` : ''
+      const columns = format == 'ndjson' ?
+          sqlDocumentExpression(mapping)
+          : [mapping.idColumn, ...mapping.jsonColumn ? [mapping.jsonColumn] : [], ...getMappedColumns(mapping)]
+              .map((c) => `"${c}"`).join(', ')
+      // In NDJSON format, each row is a single JSON value. Choose quote and delimiter characters that cannot appear
+      // unescaped in JSON text, so that the values are written verbatim.
+      const copyOptions = format == 'ndjson' ?
+          `FORMAT csv, QUOTE E'\\x01', DELIMITER E'\\x02'`
+          : 'FORMAT csv, HEADER'
+      // COPY statements do not accept parameters.
+      const selectQuery = inlineSqlParameters(
+        `SELECT ${columns} FROM "${mapping.table}"${whereClause}`,
+        parameterValues
+      )
+      const stream = await db.copyToStream(`COPY (${selectQuery}) TO STDOUT WITH (${copyOptions})`, options.client)
+      if (!onProgress) {
+        return stream
+      }
+      // In CSV format, the header is not an item.
+      const progress: CopyProgress = {count: format == 'csv' ? -1 : 0}
+      const counter = makeRecordCounter(() => {
+        progress.count++
+        if (progress.count > 0 && progress.count % progressInterval == 0) {
+          onProgress({...progress})
+        }
+      }, format == 'csv')
+      counter.on('end', () => onProgress({count: Math.max(progress.count, 0)}))
+      stream.on('error', (err) => counter.destroy(err))
+      return stream.pipe(counter)
+    },
+
+    /**
+     * Restore an item that has been soft-deleted.
+     *
+     * @param id The ID of the item to restore.
+     * @param options
+     * @param options.client A database client to use.
+     * @return True if a deleted item was found and restored, false otherwise.
+     */
+    restore: async function(id: Id, options: {client?: any} = {}) {
+      if (!entityType.mapping) {
+        throw new PersistenceError(
+          `Cannot make SQL query for an unmapped entity type (${entityType.name})).`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const mapping = entityType.mapping
+      if (!mapping.table) {
+        throw new PersistenceError(`restore failed because type "${entityType.name} has no table.`)
+      }
+      if (!mapping.softDelete) {
+        throw new PersistenceError(
+          `restore failed because type "${entityType.name}" does not use soft deletes.`,
+          {entityTypeName: entityType.name}
+        )
+      }
+      const parameterValues = [id, ...mapping.jsonColumn ? [entityType.name] : []]
+      const {assignments, parameterValues: assignmentParameterValues} = sqlAssignmentsFromPropertyValues(mapping, {
+        [mapping.softDelete.deletedAtProperty]: undefined,
+        [mapping.softDelete.deletedByProperty]: undefined
+      }, parameterValues.length)
+      const {rowCount} = await db.query(
+        `UPDATE "${mapping.table}" SET ${assignments.join(', ')} WHERE "${mapping.idColumn}" = $1`
+            + (mapping.jsonColumn ? ` AND "${mapping.jsonColumn}"->>'_type' = $2` : '')
+            + ` AND ${makeSoftDeleteClause(mapping, 'only')}`,
+        [...parameterValues, ...assignmentParameterValues],
+        options.client
+      )
+      return (rowCount || 0) > 0
     }
   }
 }
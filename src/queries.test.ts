@@ -0,0 +1,131 @@
+import {describe, expect, test} from '@jest/globals'
+
+import {applyQuery, calculateExpression, QueryClause, regExpFromLikePattern} from './queries.js'
+
+describe('regExpFromLikePattern', () => {
+  test.each<[string, string, boolean]>([
+    ['a%', 'abc', true],
+    ['a%', 'ba', false],
+    ['%b%', 'a\nb\nc', true],
+    ['a_c', 'abc', true],
+    ['a_c', 'ac', false],
+    ['a_c', 'abbc', false],
+    ['100\\%', '100%', true],
+    ['100\\%', '1000', false],
+    ['a\\_c', 'a_c', true],
+    ['a\\_c', 'abc', false],
+    ['a\\\\b', 'a\\b', true],
+    ['(a.b)*', '(a.b)*', true],
+    ['(a.b)*', 'axb', false],
+    ['abc', 'ABC', false]
+  ])('matches pattern %j against %j: %s', (pattern, text, matches) => {
+    expect(regExpFromLikePattern(pattern).test(text)).toBe(matches)
+  })
+
+  test('ignores case if requested', () => {
+    expect(regExpFromLikePattern('a%C', true).test('ABc')).toBe(true)
+  })
+})
+
+describe('calculateExpression', () => {
+  test('yields null for missing properties', () => {
+    expect(calculateExpression({a: {}}, {path: 'a.b'})).toBeNull()
+  })
+
+  test('yields the first non-null value of a coalesce expression', () => {
+    expect(calculateExpression({b: 0}, {coalesce: [{path: 'a'}, {path: 'b'}, {constant: 1}]})).toBe(0)
+  })
+
+  test('evaluates logical operators under three-valued logic', () => {
+    const operator = (name: string, ...paths: string[]) =>
+      calculateExpression({t: true, f: false}, {operator: name, parameters: paths.map((path) => ({path}))})
+    expect(operator('and', 't', 'missing')).toBeNull()
+    expect(operator('and', 'f', 'missing')).toBe(false)
+    expect(operator('or', 't', 'missing')).toBe(true)
+    expect(operator('or', 'f', 'missing')).toBeNull()
+    expect(operator('not', 'missing')).toBeNull()
+  })
+})
+
+describe('applyQuery', () => {
+  const item = {a: 1, s: 'x', n: null, tags: ['red', 'blue'], parts: [{n: 10}, {n: '10'}]}
+
+  // A comparison whose value is unknown, because the property is missing
+  const unknown: QueryClause = {l: {path: 'missing'}, r: {constant: 1}}
+
+  test.each<[string, QueryClause, boolean]>([
+    ['a comparison with a missing property', unknown, false],
+    ['the negation of a comparison with a missing property', {not: unknown}, false],
+    ['a != comparison with a null property', {operator: '!=', l: {path: 'n'}, r: {constant: 'x'}}, false],
+    ['an and clause with unknown and true subclauses', {and: [unknown, true]}, false],
+    ['an and clause with unknown and false subclauses', {not: {and: [unknown, false]}}, true],
+    ['an or clause with unknown and true subclauses', {or: [unknown, true]}, true],
+    ['an or clause with unknown and false subclauses', {not: {or: [unknown, false]}}, false],
+    ['a comparison of a missing property with null', {l: {path: 'missing'}, r: {constant: null}}, true],
+    ['a comparison of a null property with null', {l: {path: 'n'}, r: {constant: null}}, true],
+    ['a comparison of a present property with null', {l: {path: 'a'}, r: {constant: null}}, false],
+    ['a != comparison of a present property with null', {operator: '!=', l: {path: 'a'}, r: {constant: null}}, true],
+    [
+      'a between clause with a missing property',
+      {not: {operator: 'between', l: {path: 'missing'}, r: {range: [{constant: 0}, {constant: 2}]}}},
+      false
+    ],
+    ['an in clause with a missing property', {not: {operator: 'in', l: {path: 'missing'}, r: {constant: [1]}}}, false],
+    [
+      'an in clause with a missing property and a list including null',
+      {operator: 'in', l: {path: 'missing'}, r: {constant: [1, null]}},
+      true
+    ],
+    [
+      'an in clause with no match and a list including null',
+      {not: {operator: 'in', l: {path: 'a'}, r: {constant: [2, null]}}},
+      false
+    ],
+    [
+      'an in clause with a match and a list including null',
+      {operator: 'in', l: {path: 'a'}, r: {constant: [1, null]}},
+      true
+    ],
+    ['a like clause on a missing property', {not: {operator: 'like', l: {path: 'missing'}, r: {constant: '%'}}}, false],
+    ['an exists clause with a null property', {exists: {path: 'n'}}, true],
+    ['an isNull clause with a missing property', {isNull: {path: 'missing'}}, true],
+    ['a notExists clause with a missing property', {notExists: {path: 'missing'}}, true]
+  ])('evaluates %s', (_description, query, matches) => {
+    expect(applyQuery(item, query)).toBe(matches)
+  })
+
+  test('compares property values as text, and function values and array sizes as numbers', () => {
+    expect(applyQuery({a: 10}, {operator: '>', l: {path: 'a'}, r: {constant: 9}})).toBe(false)
+    expect(applyQuery({a: 10}, {operator: '<', l: {path: 'a'}, r: {constant: 9}})).toBe(true)
+    expect(applyQuery({a: 10}, {l: {path: 'a'}, r: {constant: '10'}})).toBe(true)
+    const lengthClause = {operator: '>', l: {function: 'length', parameters: [{path: 's'}]}, r: {constant: 9}}
+    expect(applyQuery({s: 'abcdefghij'}, lengthClause as unknown as QueryClause)).toBe(true)
+    expect(applyQuery({tags: new Array(10).fill('x')}, {operator: '>', l: {size: {path: 'tags'}}, r: {constant: 9}}))
+        .toBe(true)
+  })
+
+  test('compares values by JSON type in the subclauses of any and all clauses', () => {
+    expect(applyQuery(item, {any: {path: 'parts'}, where: {operator: '>', l: {path: 'n'}, r: {constant: 9}}}))
+        .toBe(true)
+    // The string "10" neither equals nor fails to equal 10, so it does not fail the all clause.
+    expect(applyQuery(item, {all: {path: 'parts'}, where: {l: {path: 'n'}, r: {constant: 10}}})).toBe(true)
+    expect(applyQuery(item, {all: {path: 'parts'}, where: {l: {path: 'n'}, r: {constant: 11}}})).toBe(false)
+    expect(applyQuery(item, {all: {path: 'parts'}, where: {not: {l: {path: 'n'}, r: {constant: 'x'}}}})).toBe(true)
+    expect(applyQuery(item, {any: {path: 'parts'}, where: {operator: 'in', l: {path: 'n'}, r: {constant: ['10']}}}))
+        .toBe(true)
+  })
+
+  test('treats the elements of missing arrays as absent in any and all clauses', () => {
+    expect(applyQuery(item, {any: {path: 'missing'}, where: true})).toBe(false)
+    expect(applyQuery(item, {all: {path: 'missing'}, where: false})).toBe(true)
+    expect(applyQuery(item, {any: {path: 'tags'}, where: {l: {path: ''}, r: {constant: 'blue'}}})).toBe(true)
+  })
+
+  test('matches like and ilike patterns with escaped wildcards', () => {
+    const discount = {label: '10% off_now'}
+    expect(applyQuery(discount, {operator: 'like', l: {path: 'label'}, r: {constant: '10\\% off\\_%'}})).toBe(true)
+    expect(applyQuery(discount, {operator: 'like', l: {path: 'label'}, r: {constant: '10\\%off%'}})).toBe(false)
+    expect(applyQuery(discount, {operator: 'ilike', l: {path: 'label'}, r: {constant: '%OFF%'}})).toBe(true)
+    expect(applyQuery(discount, {operator: 'not like', l: {path: 'label'}, r: {constant: '%OFF%'}})).toBe(true)
+  })
+})
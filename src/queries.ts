@@ -1,5 +1,8 @@
 import _ from 'lodash'
 
+import {PersistenceError} from './errors.js'
+import {evaluateQueryFunction} from './query-functions.js'
+
 export type QueryConstant = string | number | boolean | null
 export type QueryFullTextSearchContext = 'default'
 export type QueryPath = string
@@ -12,9 +15,11 @@ export interface QueryFunctionExpression {function: string, parameters: (QueryCo
 export interface QueryOperatorExpression {operator: string, parameters: (QueryConstantExpression | QueryPathExpression)[]}
 export interface QueryPathExpression {path: QueryPath, sqlType?: string}
 export interface QueryRangeExpression {range: [QueryConstantExpression, QueryConstantExpression]}
+/** The length of an array, or null if the value at the path is not an array. */
+export interface QuerySizeExpression {size: QueryPathExpression}
 export type QueryExpression = QueryCoalesceExpression | QueryConstantExpression | QueryConstantListExpression
     | QueryFullTextExpression | QueryFunctionExpression | QueryOperatorExpression | QueryPathExpression
-    | QueryRangeExpression
+    | QueryRangeExpression | QuerySizeExpression
 
 export interface QueryBetweenClause {
   operator: 'between',
@@ -23,8 +28,31 @@ export interface QueryBetweenClause {
 }
 
 export interface QueryComparisonClause {
-  operator?: '=' | '<' | '>' | '<=' | '>=' | '!=' | 'like' | '~',
+  operator?: '=' | '<' | '>' | '<=' | '>=' | '!=',
+  l: QueryConstantExpression | QueryPathExpression | QuerySizeExpression,
+  r: QueryConstantExpression | QueryPathExpression
+}
+
+/**
+ * An operator that matches text against a pattern.
+ *
+ * - like, ilike: SQL LIKE patterns, in which % matches any sequence of characters, _ matches any one character, and a
+ *   backslash escapes the character that follows it. ilike ignores case.
+ * - ~, ~*: POSIX regular expressions. ~* ignores case.
+ * - starts with, ends with: Literal prefixes and suffixes, in which no characters are special.
+ * - not like, not ilike, !~, !~*: The negations of like, ilike, ~ and ~*.
+ */
+export type QueryPatternOperator = 'like' | 'ilike' | '~' | '~*' | 'starts with' | 'ends with'
+    | 'not like' | 'not ilike' | '!~' | '!~*'
+
+export const QUERY_PATTERN_OPERATORS: QueryPatternOperator[] = [
+  'like', 'ilike', '~', '~*', 'starts with', 'ends with', 'not like', 'not ilike', '!~', '!~*'
+]
+
+export interface QueryPatternClause {
+  operator: QueryPatternOperator,
   l: QueryConstantExpression | QueryPathExpression,
+  /** The pattern. */
   r: QueryConstantExpression | QueryPathExpression
 }
 
@@ -34,13 +62,52 @@ export interface QueryInClause {
   r: QueryConstantListExpression
 }
 
+/**
+ * A case-insensitive search for text in the whole document (if the left side is a full-text expression) or in the
+ * value of one property.
+ */
 export interface QueryFullTextSearchClause {
   operator: 'contains'
-  l: QueryFullTextExpression
+  l: QueryFullTextExpression | QueryPathExpression
   r: QueryConstantExpression | QueryPathExpression
 }
 
+/**
+ * A comparison of an array with a list of values.
+ *
+ * - contains: The array contains every value in the list.
+ * - containedBy: Every element of the array is in the list.
+ * - overlaps: The array and the list have a string in common. Only string elements are compared.
+ *
+ * Array elements that are objects contain a value if they have all its properties.
+ */
+export interface QueryArrayClause {
+  operator: 'contains' | 'containedBy' | 'overlaps'
+  l: QueryPathExpression
+  r: QueryConstantListExpression
+}
+
 export type QuerySimpleClause = QueryBetweenClause | QueryComparisonClause | QueryInClause | QueryFullTextSearchClause
+    | QueryPatternClause | QueryArrayClause
+
+/**
+ * A clause that is true if some element of an array matches a subclause. In the subclause, paths are relative to the
+ * array element, and the empty path refers to the element itself. A missing array has no elements, and a value that is
+ * not an array is treated as an array of one element.
+ */
+export interface QueryAnyClause {
+  any: QueryPathExpression
+  where: QueryClause
+}
+
+/**
+ * A clause that is true if no element of an array fails to match a subclause. Paths in the subclause are interpreted
+ * as in {@link QueryAnyClause}.
+ */
+export interface QueryAllClause {
+  all: QueryPathExpression
+  where: QueryClause
+}
 
 export interface QueryAndClause {
   and: QueryClause[]
@@ -54,13 +121,58 @@ export interface QueryNotClause {
   not: QueryClause
 }
 
-export type QueryClause = QuerySimpleClause | QueryAndClause | QueryOrClause | QueryNotClause | true | false
+/**
+ * A clause that tests whether a property is present, or whether its value is null.
+ *
+ * - exists: The property is present, even if its value is null.
+ * - notExists: The property is missing.
+ * - isNull: The property is missing or its value is null.
+ * - isNotNull: The property is present and its value is not null.
+ *
+ * Unlike comparisons, these clauses are never unknown: they are always true or false, even for missing properties. A
+ * mapped property whose column is null is treated as missing.
+ */
+export type QueryExistenceClause = {exists: QueryPathExpression} | {notExists: QueryPathExpression}
+    | {isNull: QueryPathExpression} | {isNotNull: QueryPathExpression}
+
+export type QueryExistenceOperator = 'exists' | 'notExists' | 'isNull' | 'isNotNull'
+
+export const QUERY_EXISTENCE_OPERATORS: QueryExistenceOperator[] = ['exists', 'notExists', 'isNull', 'isNotNull']
+
+export type QueryClause = QuerySimpleClause | QueryAndClause | QueryOrClause | QueryNotClause | QueryAnyClause
+    | QueryAllClause | QueryExistenceClause | true | false
 
 export type QueryOrderProperty = QueryPathExpression
 export type QueryOrderDirection = 'asc' | 'desc' | 'ASC' | 'DESC'
 export type QueryOrderElement = QueryOrderProperty | [QueryOrderProperty, QueryOrderDirection]
 export type QueryOrder = QueryOrderElement[]
 
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export interface AggregateMeasure {
+  /** The name under which the measure's value is returned. */
+  name: string
+  function: AggregateFunction
+  /** The property to aggregate. If omitted, count counts rows; other functions require a path. */
+  path?: QueryPath
+  /**
+   * The type of the property's values. Sums and averages are always numeric. Minimums and maximums compare values as
+   * text unless the type is number.
+   */
+  type?: 'number' | 'text'
+}
+
+export type AggregateMeasureValue<Measure extends AggregateMeasure> =
+    Measure['function'] extends 'count' ? number
+    : Measure['function'] extends 'sum' | 'avg' ? number | null
+    : any
+
+export interface AggregateResultRow<Measures extends readonly AggregateMeasure[] = AggregateMeasure[]> {
+  /** The values of the grouping properties, keyed by property path. */
+  group: {[path: QueryPath]: any}
+  measures: {[Measure in Measures[number] as Measure['name']]: AggregateMeasureValue<Measure>}
+}
+
 export interface SqlExpression {
   expression: string,
   parameterValues: any[]
@@ -105,6 +217,10 @@ export function queryExpressionIsRange(expression: QueryExpression): expression
   return (expression as QueryRangeExpression).range !== undefined
 }
 
+export function queryExpressionIsSize(expression: QueryExpression): expression is QuerySizeExpression {
+  return (expression as QuerySizeExpression).size !== undefined
+}
+
 export function queryClauseIsBetween(clause: QueryClause): clause is QueryBetweenClause {
   return (clause as QueryBetweenClause).operator == 'between'
 }
@@ -114,6 +230,10 @@ export function queryClauseIsComparison(clause: QueryClause): clause is QueryCom
   return !queryClauseIsFullTextSearch(clause) && [undefined, '=', '<', '>', '<=', '>=', '!='].includes(operator)
 }
 
+export function queryClauseIsPattern(clause: QueryClause): clause is QueryPatternClause {
+  return QUERY_PATTERN_OPERATORS.includes((clause as QueryPatternClause).operator)
+}
+
 export function queryClauseIsIn(clause: QueryClause): clause is QueryInClause {
   return (clause as QueryInClause).operator == 'in'
 }
@@ -122,13 +242,44 @@ export function queryClauseIsFullTextSearch(clause: QueryClause): clause is Quer
   const l = (clause as QueryFullTextSearchClause).l
   const r = (clause as QueryFullTextSearchClause).r
   return (clause as QueryFullTextSearchClause).operator == 'contains'
-      && queryExpressionIsFullText(l)
+      && (queryExpressionIsFullText(l) || queryExpressionIsPath(l))
       && (queryExpressionIsConstant(r) || queryExpressionIsPath(r))
 }
 
+export function queryClauseIsArray(clause: QueryClause): clause is QueryArrayClause {
+  const {operator, l, r} = clause as QueryArrayClause
+  return ['contains', 'containedBy', 'overlaps'].includes(operator) && l != null && queryExpressionIsPath(l)
+      && r != null && queryExpressionIsConstantList(r)
+}
+
 export function queryClauseIsSimple(clause: QueryClause): clause is QuerySimpleClause {
   return queryClauseIsBetween(clause) || queryClauseIsComparison(clause) || queryClauseIsIn(clause)
-      || queryClauseIsFullTextSearch(clause)
+      || queryClauseIsFullTextSearch(clause) || queryClauseIsPattern(clause) || queryClauseIsArray(clause)
+}
+
+export function queryClauseIsAny(clause: QueryClause): clause is QueryAnyClause {
+  return (clause as QueryAnyClause).any != null
+}
+
+export function queryClauseIsAll(clause: QueryClause): clause is QueryAllClause {
+  return (clause as QueryAllClause).all != null
+}
+
+export function queryClauseIsExistence(clause: QueryClause): clause is QueryExistenceClause {
+  return _.isPlainObject(clause) && QUERY_EXISTENCE_OPERATORS.some((operator) => _.has(clause, operator))
+}
+
+/**
+ * Get the operator and path of an existence clause.
+ *
+ * @param clause The existence clause.
+ * @return The operator and the path expression that it tests.
+ */
+export function existenceClauseOperatorAndPath(
+    clause: QueryExistenceClause
+): [QueryExistenceOperator, QueryPathExpression] {
+  const operator = QUERY_EXISTENCE_OPERATORS.find((o) => _.has(clause, o)) as QueryExistenceOperator
+  return [operator, (clause as any)[operator]]
 }
 
 export function queryClauseIsAnd(clause: QueryClause): clause is QueryAndClause {
@@ -143,11 +294,143 @@ export function queryClauseIsNot(clause: QueryClause): clause is QueryNotClause
   return (clause as QueryNotClause).not != null
 }
 
+/**
+ * The value of a query clause under SQL's three-valued logic: true, false, or null (unknown). A clause is unknown when
+ * it compares a null value other than by testing for null.
+ */
+type TruthValue = boolean | null
+
+/**
+ * Convert a value to a truth value, as SQL does when a value is used as a boolean.
+ */
+function truthValueFromValue(value: any): TruthValue {
+  if (value == null) {
+    return null
+  } else if (typeof value == 'string') {
+    return ['true', 't', 'yes', 'y', 'on', '1'].includes(value.toLowerCase())
+  }
+  return !!value
+}
+
+/**
+ * Convert a value to the form it would take in a SQL query. Dates become ISO 8601 strings, and objects and arrays
+ * become JSON text.
+ */
+function comparableValue(value: any): string | number | boolean {
+  if (typeof value == 'number' || typeof value == 'boolean' || typeof value == 'string') {
+    return value
+  } else if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Determine whether the SQL generator's expression for a query expression yields text. Property values are extracted
+ * from JSON documents with ->>, which yields text unless the path is cast to boolean.
+ *
+ * Mapped columns are not distinguished from JSON properties here, so comparisons of values in mapped numeric columns
+ * are an exception to the rules that follow from this.
+ */
+function expressionYieldsText(expression: QueryExpression): boolean {
+  if (queryExpressionIsPath(expression)) {
+    return expression.sqlType?.toLowerCase() != 'boolean'
+  } else if (queryExpressionIsCoalesce(expression)) {
+    return expression.coalesce.some(expressionYieldsText)
+  }
+  return false
+}
+
+/**
+ * The way in which the SQL generator's queries compare two values:
+ *
+ * - text: As text. When either side of a comparison is a property value, SQL compares the two sides as text, so that
+ *   10 < 9.
+ * - sql: Numbers, such as function values and array sizes, numerically, and other values as text.
+ * - json: By JSON type, as the SQL/JSON path filters of any and all clauses do. Numbers are compared numerically and
+ *   strings as text, so that 10 > 9, and values of different types cannot be compared, so that 10 does not equal "10".
+ */
+type ComparisonMode = 'text' | 'sql' | 'json'
+
+/**
+ * Determine how the SQL generator's query for a clause compares values.
+ *
+ * @param expressions The clause's operand expressions.
+ * @param inJsonPathFilter A flag indicating whether the clause is the subclause of an any or all clause.
+ * @return The comparison mode.
+ */
+function comparisonModeForExpressions(expressions: QueryExpression[], inJsonPathFilter: boolean): ComparisonMode {
+  if (inJsonPathFilter) {
+    return 'json'
+  }
+  return expressions.some(expressionYieldsText) ? 'text' : 'sql'
+}
+
+/**
+ * Compare two non-null values as the SQL generator's queries do. Text is compared by code point, which matches SQL only
+ * in the C collation.
+ *
+ * @param a The left side's value.
+ * @param b The right side's value.
+ * @param mode The way in which to compare the values.
+ * @return A negative number, zero or a positive number, if a is less than, equal to or greater than b; or null if the
+ *   values cannot be compared, so that the comparison's value is unknown.
+ */
+function compareValues(a: any, b: any, mode: ComparisonMode): number | null {
+  const left = comparableValue(a)
+  const right = comparableValue(b)
+  const isJsonContainer = (value: any) => _.isObject(value) && !(value instanceof Date)
+  if (mode == 'json' && (isJsonContainer(a) || isJsonContainer(b) || typeof left != typeof right)) {
+    return null
+  }
+  if (mode != 'text' && typeof left == 'number' && typeof right == 'number') {
+    return left - right
+  } else if (typeof left == 'boolean' && typeof right == 'boolean') {
+    return Number(left) - Number(right)
+  }
+  const leftText = String(left)
+  const rightText = String(right)
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0
+}
+
+/**
+ * Convert a SQL LIKE pattern to a regular expression. In the pattern, % matches any sequence of characters, _ matches
+ * any one character, and a backslash escapes the character that follows it.
+ *
+ * @param pattern The LIKE pattern.
+ * @param caseInsensitive A flag indicating whether the regular expression should ignore case, as ILIKE does.
+ * @return A regular expression that matches the same strings as the pattern.
+ */
+export function regExpFromLikePattern(pattern: string, caseInsensitive = false): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char == '\\' && i + 1 < pattern.length) {
+      source += _.escapeRegExp(pattern[++i])
+    } else if (char == '%') {
+      source += '[\\s\\S]*'
+    } else if (char == '_') {
+      source += '[\\s\\S]'
+    } else {
+      source += _.escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '')
+}
+
+/**
+ * Calculate the value of a query expression for an item, with the semantics of the SQL that the query generates.
+ *
+ * @param context The item.
+ * @param expression The query expression.
+ * @return The expression's value. Paths to missing properties yield null.
+ */
 export function calculateExpression(context: any, expression: QueryExpression): any {
   if (queryExpressionIsCoalesce(expression)) {
     for (const subexpression of expression.coalesce) {
-      if (subexpression != null) {
-        return subexpression
+      const value = calculateExpression(context, subexpression)
+      if (value != null) {
+        return value
       }
     }
     return null
@@ -156,85 +439,302 @@ export function calculateExpression(context: any, expression: QueryExpression):
   } else if (queryExpressionIsConstantList(expression)) {
     return expression.constant
   } else if (queryExpressionIsFullText(expression)) {
-    return expression.text
+    // Full-text search uses the text of the whole document.
+    return JSON.stringify(context)
   } else if (queryExpressionIsFunction(expression)) {
-    throw 'Functions are not supported in query expressions outside a database context.'
+    const args = (expression.parameters || []).map((parameter) => calculateExpression(context, parameter))
+    return evaluateQueryFunction(expression.function, args)
   } else if (queryExpressionIsOperator(expression)) {
-    throw 'Operators are not supported in query expressions outside a database context.'
+    const values = (expression.parameters || [])
+        .map((parameter) => truthValueFromValue(calculateExpression(context, parameter)))
+    switch (expression.operator.toUpperCase()) {
+      case 'AND':
+        return values.includes(false) ? false : values.includes(null) ? null : true
+      case 'OR':
+        return values.includes(true) ? true : values.includes(null) ? null : false
+      case 'NOT':
+        return values[0] == null ? null : !values[0]
+      default:
+        throw new PersistenceError(
+          'Bad JSON query expression: Unknown operator',
+          {expression, operator: expression.operator}
+        )
+    }
   } else if (queryExpressionIsPath(expression)) {
-    return _.get(context, expression.path)
-    // TODO Should we support type enforcement when the optional sqlType property is present?
+    const value = expression.path == '' ? context : _.get(context, expression.path)
+    if (value == null) {
+      return null
+    }
+    return expression.sqlType?.toLowerCase() == 'boolean' ? truthValueFromValue(value) : value
   } else if (queryExpressionIsRange(expression)) {
-    return expression.range
+    return expression.range.map((rangePart) => calculateExpression(context, rangePart))
+  } else if (queryExpressionIsSize(expression)) {
+    const value = calculateExpression(context, expression.size)
+    return _.isArray(value) ? value.length : null
   }
+  throw new PersistenceError('Bad JSON query expression', {expression})
 }
 
-export function applyQuery(x: any, query: QueryClause): boolean {
+/**
+ * Determine whether one JSON value contains another, as PostgreSQL's jsonb @> operator does. An object contains
+ * another if it has all the other's properties with contained values; an array contains another if each of the other's
+ * elements is contained in one of its elements; and an array contains a primitive value that is one of its elements.
+ */
+function jsonContains(container: any, value: any): boolean {
+  if (_.isArray(container)) {
+    if (_.isArray(value)) {
+      return value.every((element) => container.some((containerElement) => jsonContains(containerElement, element)))
+    }
+    return !_.isPlainObject(value) && container.some((containerElement) => _.isEqual(containerElement, value))
+  } else if (_.isPlainObject(container) && _.isPlainObject(value)) {
+    return Object.entries(value).every(([key, propertyValue]) =>
+      _.has(container, key) && jsonContains(container[key], propertyValue)
+    )
+  }
+  return _.isEqual(container, value)
+}
+
+/**
+ * Get the elements of an array for an any or all clause. A missing value has no elements, and a value that is not an
+ * array is treated as an array of one element.
+ */
+function arrayElementsFromValue(value: any): any[] {
+  return value == null ? [] : _.isArray(value) ? value : [value]
+}
+
+/**
+ * Evaluate a query clause for an item under SQL's three-valued logic.
+ *
+ * @param x The item.
+ * @param query The query clause.
+ * @param inJsonPathFilter A flag indicating whether the clause is the subclause of an any or all clause, which the SQL
+ *   generator translates into a SQL/JSON path filter that compares values by JSON type.
+ * @return True or false, or null if the clause's value is unknown.
+ */
+function evaluateQueryClause(x: any, query: QueryClause, inJsonPathFilter = false): TruthValue {
   if (query === true) {
     return true
   } else if (query === false) {
     return false
   } else if (queryClauseIsAnd(query)) {
+    let value: TruthValue = true
     for (const subclause of query.and) {
-      if (!applyQuery(x, subclause)) {
+      const subclauseValue = evaluateQueryClause(x, subclause, inJsonPathFilter)
+      if (subclauseValue === false) {
         return false
+      } else if (subclauseValue == null) {
+        value = null
       }
-      return true
     }
+    return value
   } else if (queryClauseIsOr(query)) {
+    let value: TruthValue = false
     for (const subclause of query.or) {
-      if (applyQuery(x, subclause)) {
+      const subclauseValue = evaluateQueryClause(x, subclause, inJsonPathFilter)
+      if (subclauseValue === true) {
         return true
+      } else if (subclauseValue == null) {
+        value = null
       }
-      return false
     }
+    return value
   } else if (queryClauseIsNot(query)) {
-    return !applyQuery(x, query.not)
-  } else { // queryClauseIsSimple
-    if (queryClauseIsBetween(query)) {
-      const left = calculateExpression(x, query.l)
-      const right = calculateExpression(x, query.r)
-      if (!_.isArray(right) || right.length != 2) {
-        throw 'For "between" queries, the right side must be a range (an array of size 2).'
-      }
-      if (typeof left == 'number') {
-        if (typeof right[0] != 'number' || typeof right[1] != 'number') {
-          throw 'For "between" queries, the range must consist of numbers if the left side is a number.'
-        }
-        return right[0] <= left && left <= right[1]
-      } else if (typeof left == 'string') {
-        return right[0].toString() <= left && left <= right[1].toString()
-      } else {
-        return right[0] <= left && left <= right[1]
-      }
-    } else if (queryClauseIsComparison(query)) {
-      const left = calculateExpression(x, query.l)
-      const right = calculateExpression(x, query.r)
-      switch (query.operator) {
-        case '<':
-          return left < right
-        case '>':
-          return left > right
-        case '<=':
-          return left <= right
-        case '>=':
-          return left >= right
-        case '!=':
-          return left != right
-        case '=':
-        default:
-          return left == right
-      }
-    } else if (queryClauseIsIn(query)) {
-      const left = calculateExpression(x, query.l)
-      const right = calculateExpression(x, query.r)
-      if (!_.isArray(right)) {
-        throw 'For "in" queries, the right side must be an array.'
+    const value = evaluateQueryClause(x, query.not, inJsonPathFilter)
+    return value == null ? null : !value
+  } else if (queryClauseIsExistence(query)) {
+    const [operator, {path}] = existenceClauseOperatorAndPath(query)
+    const exists = path == '' ? x !== undefined : (x != null && _.has(x, path))
+    const isNull = (path == '' ? x : _.get(x, path)) == null
+    switch (operator) {
+      case 'exists':
+        return exists
+      case 'notExists':
+        return !exists
+      case 'isNull':
+        return isNull
+      case 'isNotNull':
+        return !isNull
+    }
+    return null
+  } else if (queryClauseIsAny(query)) {
+    const elements = arrayElementsFromValue(calculateExpression(x, query.any))
+    return elements.some((element) => evaluateQueryClause(element, query.where, true) === true)
+  } else if (queryClauseIsAll(query)) {
+    const elements = arrayElementsFromValue(calculateExpression(x, query.all))
+    return !elements.some((element) => evaluateQueryClause(element, query.where, true) === false)
+  } else if (queryClauseIsArray(query)) {
+    const left = calculateExpression(x, query.l)
+    const right = calculateExpression(x, query.r)
+    if (left == null) {
+      return null
+    }
+    switch (query.operator) {
+      case 'contains':
+        return jsonContains(left, right)
+      case 'containedBy':
+        return jsonContains(right, left)
+      case 'overlaps': {
+        const strings = right.filter((value: any) => value != null).map(String)
+        return _.isArray(left) && left.some((element) => typeof element == 'string' && strings.includes(element))
       }
-      return right.includes(left)
-    } else if (queryClauseIsFullTextSearch(query)) {
-      throw 'Full text search queries are not supported outside a database context.'
+    }
+    return null
+  } else if (queryClauseIsFullTextSearch(query)) {
+    const left = calculateExpression(x, query.l)
+    const right = calculateExpression(x, query.r)
+    if (left == null || right == null) {
+      return null
+    }
+    return String(comparableValue(left)).toLowerCase().includes(String(right).toLowerCase())
+  } else if (queryClauseIsPattern(query)) {
+    const left = calculateExpression(x, query.l)
+    const right = calculateExpression(x, query.r)
+    if (left == null || right == null) {
+      return null
+    }
+    const text = String(comparableValue(left))
+    const pattern = String(comparableValue(right))
+    switch (query.operator) {
+      case 'like':
+      case 'ilike':
+        return regExpFromLikePattern(pattern, query.operator == 'ilike').test(text)
+      case 'not like':
+      case 'not ilike':
+        return !regExpFromLikePattern(pattern, query.operator == 'not ilike').test(text)
+      case '~':
+      case '~*':
+        return new RegExp(pattern, query.operator == '~*' ? 'i' : '').test(text)
+      case '!~':
+      case '!~*':
+        return !new RegExp(pattern, query.operator == '!~*' ? 'i' : '').test(text)
+      case 'starts with':
+        return text.startsWith(pattern)
+      case 'ends with':
+        return text.endsWith(pattern)
+    }
+    return null
+  } else if (queryClauseIsBetween(query)) {
+    const left = calculateExpression(x, query.l)
+    const right = calculateExpression(x, query.r)
+    if (!_.isArray(right) || right.length != 2) {
+      throw new PersistenceError('For "between" queries, the right side must be a range (an array of size 2).', {query})
+    }
+    if (left == null || right[0] == null || right[1] == null) {
+      return null
+    }
+    const mode = comparisonModeForExpressions([query.l, ...query.r.range], inJsonPathFilter)
+    const lowerComparison = compareValues(right[0], left, mode)
+    const upperComparison = compareValues(left, right[1], mode)
+    if (lowerComparison == null || upperComparison == null) {
+      return null
+    }
+    return lowerComparison <= 0 && upperComparison <= 0
+  } else if (queryClauseIsIn(query)) {
+    const left = calculateExpression(x, query.l)
+    const right = calculateExpression(x, query.r)
+    if (!_.isArray(right)) {
+      throw new PersistenceError('For "in" queries, the right side must be an array.', {query})
+    }
+    // A list that includes null matches null values.
+    const listIncludesNull = right.includes(null)
+    if (left == null) {
+      return listIncludesNull ? true : null
+    }
+    const mode = comparisonModeForExpressions([query.l, query.r], inJsonPathFilter)
+    const comparisons = right.filter((value) => value != null).map((value) => compareValues(left, value, mode))
+    return comparisons.includes(0) ? true : (listIncludesNull || comparisons.includes(null)) ? null : false
+  } else {
+    const clause = query as QueryComparisonClause
+    const left = calculateExpression(x, clause.l)
+    const right = calculateExpression(x, clause.r)
+    const operator = clause.operator || '='
+
+    // Comparisons of a path with a null constant test whether the path's value is null.
+    const leftIsNullConstant = queryExpressionIsConstant(clause.l) && clause.l.constant == null
+    const rightIsNullConstant = queryExpressionIsConstant(clause.r) && clause.r.constant == null
+    const testsForNull = (queryExpressionIsPath(clause.l) && rightIsNullConstant)
+        || (queryExpressionIsPath(clause.r) && leftIsNullConstant)
+    if (operator == '=' && testsForNull) {
+      return left == null && right == null
+    } else if (operator == '!=' && queryExpressionIsPath(clause.l) && rightIsNullConstant) {
+      return left != null
+    }
+
+    if (left == null || right == null) {
+      return null
+    }
+    const comparison = compareValues(left, right, comparisonModeForExpressions([clause.l, clause.r], inJsonPathFilter))
+    if (comparison == null) {
+      return null
+    }
+    switch (operator) {
+      case '=':
+        return comparison == 0
+      case '!=':
+        return comparison != 0
+      case '<':
+        return comparison < 0
+      case '>':
+        return comparison > 0
+      case '<=':
+        return comparison <= 0
+      case '>=':
+        return comparison >= 0
+      default:
+        throw new PersistenceError('Bad JSON query clause: Unknown operator', {query, operator})
     }
   }
-  return false
+}
+
+/**
+ * Determine whether an item matches a query, with the semantics of the SQL that the query generates.
+ *
+ * Clauses follow SQL's three-valued logic, so that a comparison involving a null or missing value is neither true nor
+ * false, and an item matches only if the whole query is true. Comparisons with property values are made as text, as
+ * they are in SQL.
+ *
+ * @param x The item.
+ * @param query The query.
+ * @return True if the item matches the query.
+ */
+export function applyQuery(x: any, query: QueryClause): boolean {
+  return evaluateQueryClause(x, query) === true
+}
+
+/** A function that maps a path in a query to a new path, optionally with additional path expression options. */
+export type QueryPathTransformer = (path: QueryPath) => {
+  path: QueryPath
+  additionalOptions?: Omit<QueryPathExpression, 'path'>
+}
+
+function mapPathsInQueryElement(element: any, transformer: QueryPathTransformer): any {
+  if (_.isArray(element)) {
+    return element.map((subelement) => mapPathsInQueryElement(subelement, transformer))
+  } else if (!_.isPlainObject(element) || _.has(element, 'constant')) {
+    return element
+  } else if (queryExpressionIsPath(element)) {
+    const {path, additionalOptions} = transformer(element.path)
+    return {...element, path, ...additionalOptions || {}}
+  } else if (queryClauseIsAny(element) || queryClauseIsAll(element)) {
+    // Paths in the subclause are relative to the array elements, so they are left unchanged.
+    const arrayPathKey = queryClauseIsAny(element) ? 'any' : 'all'
+    return {...element, [arrayPathKey]: mapPathsInQueryElement((element as any)[arrayPathKey], transformer)}
+  }
+  return _.mapValues(element, (value) => mapPathsInQueryElement(value, transformer))
+}
+
+/**
+ * Transform the paths in a query or query order.
+ *
+ * Paths in the subclauses of any and all clauses, which are relative to array elements, are not transformed.
+ *
+ * @param queryOrOrder The query or query order.
+ * @param transformer A function that maps each path to a new path.
+ * @return A copy of the query or order with transformed paths.
+ */
+export function mapQueryPaths<T extends QueryClause | QueryOrder>(
+    queryOrOrder: T,
+    transformer: QueryPathTransformer
+): T {
+  return mapPathsInQueryElement(queryOrOrder, transformer)
 }
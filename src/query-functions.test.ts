@@ -0,0 +1,99 @@
+import {afterEach, describe, expect, test} from '@jest/globals'
+
+import {PersistenceError} from './errors.js'
+import {docorm} from './index.js'
+import {evaluateQueryFunction, getQueryFunction, sqlFromQueryFunctionCall} from './query-functions.js'
+
+afterEach(() => {
+  delete docorm.config.queryFunctions
+})
+
+describe('getQueryFunction', () => {
+  test('finds built-in functions regardless of case', () => {
+    expect(getQueryFunction('LOWER')).toBe(getQueryFunction('lower'))
+    expect(getQueryFunction('lower')?.returnType).toBe('string')
+  })
+
+  test('yields undefined for unknown functions', () => {
+    expect(getQueryFunction('pg_sleep')).toBeUndefined()
+    expect(getQueryFunction('constructor')).toBeUndefined()
+  })
+
+  test('prefers configured functions to built-in functions', () => {
+    const lower = {sqlTemplate: 'my_lower({0})', argumentTypes: ['string' as const], returnType: 'string' as const}
+    docorm.config.queryFunctions = {Lower: lower}
+    expect(getQueryFunction('lower')).toBe(lower)
+    expect(getQueryFunction('upper')?.sqlTemplate).toBe('upper(({0})::text)')
+  })
+})
+
+describe('sqlFromQueryFunctionCall', () => {
+  test('substitutes the arguments\' SQL expressions for placeholders', () => {
+    expect(sqlFromQueryFunctionCall('lower', ['data->>\'name\''])).toBe('lower((data->>\'name\')::text)')
+  })
+
+  test('substitutes arguments in configured templates that use them in any order or more than once', () => {
+    docorm.config.queryFunctions = {
+      between_or_equal: {
+        sqlTemplate: '({1} <= {0} AND {0} <= {2})',
+        argumentTypes: ['number', 'number', 'number'],
+        returnType: 'boolean'
+      }
+    }
+    expect(sqlFromQueryFunctionCall('between_or_equal', ['x', 'a', 'b'])).toBe('(a <= x AND x <= b)')
+  })
+
+  test('rejects unknown functions', () => {
+    expect(() => sqlFromQueryFunctionCall('pg_sleep', ['1'])).toThrow(PersistenceError)
+    expect(() => sqlFromQueryFunctionCall('pg_sleep', ['1'])).toThrow('Unknown query function')
+  })
+
+  test('rejects calls with the wrong number of arguments', () => {
+    expect(() => sqlFromQueryFunctionCall('lower', [])).toThrow('Wrong number of arguments to query function')
+    expect(() => sqlFromQueryFunctionCall('now', ['x'])).toThrow('Wrong number of arguments to query function')
+  })
+
+  test('rejects templates with placeholders that have no argument', () => {
+    docorm.config.queryFunctions = {broken: {sqlTemplate: 'f({1})', argumentTypes: ['string'], returnType: 'string'}}
+    expect(() => sqlFromQueryFunctionCall('broken', ['x'])).toThrow(PersistenceError)
+  })
+})
+
+describe('evaluateQueryFunction', () => {
+  test('evaluates built-in functions', () => {
+    expect(evaluateQueryFunction('abs', [-2])).toBe(2)
+    expect(evaluateQueryFunction('abs', ['-2.5'])).toBe(2.5)
+    expect(evaluateQueryFunction('length', ['naïve 😀'])).toBe(7)
+    expect(evaluateQueryFunction('lower', ['AbC'])).toBe('abc')
+    expect(evaluateQueryFunction('trim', ['  a b '])).toBe('a b')
+    expect(evaluateQueryFunction('upper', ['AbC'])).toBe('ABC')
+    expect(evaluateQueryFunction('now', [])).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/)
+  })
+
+  test.each([
+    ['year', '2024-01-01T00:00:00.000Z'],
+    ['MONTH', '2024-05-01T00:00:00.000Z'],
+    ['day', '2024-05-17T00:00:00.000Z'],
+    ['hour', '2024-05-17T13:00:00.000Z'],
+    ['minute', '2024-05-17T13:45:00.000Z'],
+    ['second', '2024-05-17T13:45:27.000Z']
+  ])('truncates timestamps to the %s', (unit, truncatedTimestamp) => {
+    expect(evaluateQueryFunction('date_trunc', [unit, '2024-05-17T13:45:27.123Z'])).toBe(truncatedTimestamp)
+  })
+
+  test('rejects unsupported date_trunc units', () => {
+    expect(() => evaluateQueryFunction('date_trunc', ['week', '2024-05-17T13:45:27.123Z'])).toThrow(PersistenceError)
+  })
+
+  test('yields null if any argument is null or undefined', () => {
+    expect(evaluateQueryFunction('lower', [null])).toBeNull()
+    expect(evaluateQueryFunction('date_trunc', ['day', undefined])).toBeNull()
+  })
+
+  test('rejects unknown functions, wrong numbers of arguments and functions with no in-memory implementation', () => {
+    expect(() => evaluateQueryFunction('pg_sleep', [1])).toThrow('Unknown query function')
+    expect(() => evaluateQueryFunction('lower', ['a', 'b'])).toThrow('Wrong number of arguments to query function')
+    docorm.config.queryFunctions = {sql_only: {sqlTemplate: 'f()', argumentTypes: [], returnType: 'string'}}
+    expect(() => evaluateQueryFunction('sql_only', [])).toThrow('Query function has no in-memory implementation')
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Functions that may be called in query expressions
+ *
+ * Only registered functions may appear in query expressions, since queries may come from API clients. The registry
+ * holds built-in functions and any functions added by the queryFunctions configuration setting, which may also replace
+ * built-ins. Each function has a SQL template and, optionally, an in-memory implementation, which is used when queries
+ * are applied to items outside the database.
+ *
+ * @module lib/query-functions
+ */
+
+import _ from 'lodash'
+
+import {PersistenceError} from './errors.js'
+import {docorm} from './index.js'
+
+/** The type of a query function's argument or value, named as in JSON Schema. */
+export type QueryFunctionValueType = 'string' | 'number' | 'boolean'
+
+/** A function that may be called in query expressions. */
+export interface QueryFunction {
+  /**
+   * The SQL expression that calls the function. Placeholders of the form {0}, {1}, etc. stand for the SQL expressions
+   * of the arguments. Property values extracted from JSON documents are text, so the template should cast arguments
+   * that are not strings.
+   */
+  sqlTemplate: string
+  /** The types of the function's arguments. Calls must supply exactly this many arguments. */
+  argumentTypes: QueryFunctionValueType[]
+  /** The type of the function's value. */
+  returnType: QueryFunctionValueType
+  /**
+   * Calculate the function's value in memory. Like most SQL functions, it is only called with non-null arguments; if
+   * any argument is null or undefined, the function's value is null. If absent, queries that call the function can only
+   * be run in the database.
+   */
+  evaluate?: (...args: any[]) => any
+}
+
+/**
+ * The PostgreSQL format of ISO 8601 timestamps in UTC, which date functions use so that their values can be compared
+ * with timestamps stored in JSON documents.
+ */
+const SQL_ISO_TIMESTAMP_FORMAT = `'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'`
+
+/** Units accepted by date_trunc, with the number of leading ISO 8601 characters that they keep. */
+const DATE_TRUNC_UNITS: {[unit: string]: number} = {
+  year: 4,
+  month: 7,
+  day: 10,
+  hour: 13,
+  minute: 16,
+  second: 19
+}
+
+/**
+ * Truncate a timestamp to the given precision, as PostgreSQL's date_trunc function does in the UTC time zone.
+ *
+ * @param unit The precision, such as day or hour.
+ * @param timestamp The timestamp, as a date or a string that Date can parse.
+ * @return The truncated timestamp, as an ISO 8601 string.
+ */
+function truncateDate(unit: string, timestamp: any): string {
+  const length = DATE_TRUNC_UNITS[String(unit).toLowerCase()]
+  if (length == null) {
+    throw new PersistenceError('Unsupported date_trunc unit', {unit})
+  }
+  const isoTimestamp = new Date(timestamp).toISOString()
+  return isoTimestamp.substring(0, length) + '0000-01-01T00:00:00.000Z'.substring(length)
+}
+
+const BUILT_IN_QUERY_FUNCTIONS: {[name: string]: QueryFunction} = {
+  abs: {
+    sqlTemplate: 'abs(({0})::numeric)',
+    argumentTypes: ['number'],
+    returnType: 'number',
+    evaluate: (x) => Math.abs(Number(x))
+  },
+  date_trunc: {
+    sqlTemplate: `to_char(date_trunc(({0})::text, ({1})::timestamptz AT TIME ZONE 'UTC'), ${SQL_ISO_TIMESTAMP_FORMAT})`,
+    argumentTypes: ['string', 'string'],
+    returnType: 'string',
+    evaluate: truncateDate
+  },
+  length: {
+    sqlTemplate: 'length(({0})::text)',
+    argumentTypes: ['string'],
+    returnType: 'number',
+    evaluate: (s) => [...String(s)].length
+  },
+  lower: {
+    sqlTemplate: 'lower(({0})::text)',
+    argumentTypes: ['string'],
+    returnType: 'string',
+    evaluate: (s) => String(s).toLowerCase()
+  },
+  now: {
+    sqlTemplate: `to_char(now() AT TIME ZONE 'UTC', ${SQL_ISO_TIMESTAMP_FORMAT})`,
+    argumentTypes: [],
+    returnType: 'string',
+    evaluate: () => new Date().toISOString()
+  },
+  trim: {
+    sqlTemplate: 'btrim(({0})::text)',
+    argumentTypes: ['string'],
+    returnType: 'string',
+    evaluate: (s) => String(s).trim()
+  },
+  upper: {
+    sqlTemplate: 'upper(({0})::text)',
+    argumentTypes: ['string'],
+    returnType: 'string',
+    evaluate: (s) => String(s).toUpperCase()
+  }
+}
+
+/**
+ * Look up a query function by name.
+ *
+ * Functions given in the queryFunctions configuration setting take precedence over built-in functions of the same
+ * name.
+ *
+ * @param name The function's name, which is not case-sensitive.
+ * @return The function, or undefined if there is no function with this name.
+ */
+export function getQueryFunction(name: string): QueryFunction | undefined {
+  const lowerCaseName = name.toLowerCase()
+  const configuredFunctions = _.mapKeys(docorm.config.queryFunctions || {}, (_value, key) => key.toLowerCase())
+  if (_.has(configuredFunctions, lowerCaseName)) {
+    return configuredFunctions[lowerCaseName]
+  }
+  return _.has(BUILT_IN_QUERY_FUNCTIONS, lowerCaseName) ? BUILT_IN_QUERY_FUNCTIONS[lowerCaseName] : undefined
+}
+
+/**
+ * Look up a query function that is called with a certain number of arguments.
+ *
+ * @param name The function's name.
+ * @param numArgs The number of arguments.
+ * @return The function.
+ * @throws PersistenceError if there is no function with this name, or if it takes a different number of arguments.
+ */
+function getQueryFunctionForCall(name: string, numArgs: number): QueryFunction {
+  const queryFunction = getQueryFunction(name)
+  if (!queryFunction) {
+    throw new PersistenceError('Unknown query function', {function: name})
+  }
+  if (queryFunction.argumentTypes.length != numArgs) {
+    throw new PersistenceError(
+      'Wrong number of arguments to query function',
+      {function: name, expected: queryFunction.argumentTypes.length, actual: numArgs}
+    )
+  }
+  return queryFunction
+}
+
+/**
+ * Make the SQL expression for a query function call.
+ *
+ * @param name The function's name.
+ * @param args The SQL expressions of the arguments.
+ * @return The SQL expression.
+ * @throws PersistenceError if there is no function with this name, or if it takes a different number of arguments.
+ */
+export function sqlFromQueryFunctionCall(name: string, args: string[]): string {
+  const queryFunction = getQueryFunctionForCall(name, args.length)
+  return queryFunction.sqlTemplate.replace(/\{(\d+)\}/g, (placeholder, index) => {
+    const arg = args[parseInt(index)]
+    if (arg == null) {
+      throw new PersistenceError(
+        'Query function template has a placeholder with no argument',
+        {function: name, placeholder}
+      )
+    }
+    return arg
+  })
+}
+
+/**
+ * Evaluate a query function in memory.
+ *
+ * @param name The function's name.
+ * @param args The argument values.
+ * @return The function's value, which is null if any argument is null or undefined.
+ * @throws PersistenceError if there is no function with this name, if it takes a different number of arguments, or if
+ *   it has no in-memory implementation.
+ */
+export function evaluateQueryFunction(name: string, args: any[]): any {
+  const queryFunction = getQueryFunctionForCall(name, args.length)
+  if (!queryFunction.evaluate) {
+    throw new PersistenceError('Query function has no in-memory implementation', {function: name})
+  }
+  return args.some((arg) => arg == null) ? null : queryFunction.evaluate(...args)
+}
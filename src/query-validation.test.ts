@@ -0,0 +1,161 @@
+import {beforeAll, describe, expect, test} from '@jest/globals'
+import {SchemaRegistry} from 'schema-fun'
+
+import {EntityType} from './entity-types.js'
+import {docorm} from './index.js'
+import {QueryClause, QueryOrder} from './queries.js'
+import {validateQuery} from './query-validation.js'
+
+const entityType = {
+  name: 'Sample',
+  schema: {
+    type: 'object',
+    properties: {
+      name: {type: 'string'},
+      count: {type: 'integer'},
+      active: {type: 'boolean'},
+      address: {
+        type: 'object',
+        properties: {
+          city: {type: 'string'}
+        }
+      },
+      tags: {type: 'array', items: {type: 'string'}},
+      parts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            n: {type: 'number'}
+          }
+        }
+      }
+    }
+  }
+} as unknown as EntityType
+
+beforeAll(() => {
+  docorm.config.schemaRegistry = new SchemaRegistry()
+})
+
+describe('validateQuery', () => {
+  test('accepts a valid query and order', () => {
+    const query: QueryClause = {
+      and: [
+        {l: {path: 'name'}, r: {constant: 'x'}},
+        {operator: '>', l: {path: 'count'}, r: {constant: 1}},
+        {l: {path: 'address.city'}, r: {constant: null}},
+        {operator: 'in', l: {path: '_id'}, r: {constant: ['a', 'b']}},
+        {operator: 'like', l: {path: 'name'}, r: {constant: 'a%'}},
+        {any: {path: 'parts'}, where: {operator: '>=', l: {path: 'n'}, r: {constant: 1}}},
+        {all: {path: 'tags'}, where: {not: {l: {path: ''}, r: {constant: 'x'}}}},
+        {isNull: {path: 'active'}}
+      ]
+    }
+    const order: QueryOrder = [[{path: 'name'}, 'desc'], {path: 'count'}]
+    expect(validateQuery(entityType, query, order)).toEqual([])
+    expect(validateQuery(entityType)).toEqual([])
+  })
+
+  test.each<[string, QueryClause, {path: string, message: string}[]]>([
+    [
+      'unknown properties',
+      {not: {or: [true, {l: {path: 'colour'}, r: {constant: 'x'}}]}},
+      [{path: '/query/not/or/1/l/path', message: 'Unknown property "colour".'}]
+    ],
+    [
+      'unknown properties of array elements',
+      {any: {path: 'parts'}, where: {l: {path: 'm'}, r: {constant: 1}}},
+      [{path: '/query/where/l/path', message: 'Unknown property "m".'}]
+    ],
+    [
+      'comparisons of values of different types',
+      {l: {path: 'name'}, r: {constant: 1}},
+      [{path: '/query', message: 'Values of type string cannot be compared with values of type number.'}]
+    ],
+    [
+      'comparisons of array elements of different types',
+      {any: {path: 'tags'}, where: {l: {path: ''}, r: {constant: 1}}},
+      [{path: '/query/where', message: 'Values of type string cannot be compared with values of type number.'}]
+    ],
+    [
+      'ordering of values that cannot be ordered',
+      {operator: '<', l: {path: 'active'}, r: {constant: true}},
+      [{path: '/query', message: 'Values of type boolean cannot be ordered.'}]
+    ],
+    [
+      'unknown functions',
+      {l: {function: 'pg_sleep', parameters: [{constant: 1}]}, r: {constant: 1}} as unknown as QueryClause,
+      [{path: '/query/l/function', message: 'Unknown function "pg_sleep".'}]
+    ],
+    [
+      'function calls with the wrong number of arguments',
+      {
+        l: {function: 'lower', parameters: [{path: 'name'}, {constant: 'x'}]},
+        r: {constant: 'x'}
+      } as unknown as QueryClause,
+      [{path: '/query/l/parameters', message: 'Function "lower" takes 1 arguments.'}]
+    ],
+    [
+      'function calls with arguments of the wrong type',
+      {l: {function: 'lower', parameters: [{path: 'count'}]}, r: {constant: 'x'}} as unknown as QueryClause,
+      [{path: '/query/l/parameters/0', message: 'Argument must be of type string.'}]
+    ],
+    [
+      'in clauses without a list',
+      {operator: 'in', l: {path: 'name'}, r: {constant: 'x'}} as unknown as QueryClause,
+      [{path: '/query/r', message: 'The in operator requires a list of constants.'}]
+    ],
+    [
+      'in clauses with constants of the wrong type',
+      {operator: 'in', l: {path: 'count'}, r: {constant: [1, 'x']}},
+      [{path: '/query/r/constant/1', message: 'Values of type number cannot be compared with values of type string.'}]
+    ],
+    [
+      'between clauses with bounds that are not constants',
+      {operator: 'between', l: {path: 'count'}, r: {range: [{path: 'count'}, {constant: 2}]}} as unknown as QueryClause,
+      [{path: '/query/r/range/0', message: 'Range bounds must be constants.'}]
+    ],
+    [
+      'unknown operators',
+      {operator: '~~', l: {path: 'name'}, r: {constant: 'x'}} as unknown as QueryClause,
+      [{path: '/query/operator', message: 'Unknown operator "~~".'}]
+    ],
+    [
+      'any clauses on properties that are not arrays',
+      {any: {path: 'name'}, where: true},
+      [{path: '/query/any/path', message: 'Property "name" is not an array.'}]
+    ],
+    [
+      'clauses that are not objects',
+      {and: ['x']} as unknown as QueryClause,
+      [{path: '/query/and/0', message: 'Clause must be an object or a boolean.'}]
+    ],
+    [
+      'several errors',
+      {or: [{l: {path: 'colour'}, r: {constant: 'x'}}, {operator: '>', l: {path: 'active'}, r: {constant: 1}}]},
+      [
+        {path: '/query/or/0/l/path', message: 'Unknown property "colour".'},
+        {path: '/query/or/1', message: 'Values of type boolean cannot be ordered.'}
+      ]
+    ]
+  ])('reports %s', (_description, query, errors) => {
+    expect(validateQuery(entityType, query)).toEqual(errors)
+  })
+
+  test.each<[string, QueryOrder, {path: string, message: string}[]]>([
+    ['unknown properties', [{path: 'colour'}], [{path: '/order/0/path', message: 'Unknown property "colour".'}]],
+    [
+      'unknown directions',
+      [{path: 'name'}, [{path: 'count'}, 'up' as any]],
+      [{path: '/order/1/1', message: 'Direction must be asc or desc.'}]
+    ],
+    [
+      'elements that are not paths',
+      [[{constant: 1} as any, 'asc']],
+      [{path: '/order/0/0', message: 'Order element must be a path.'}]
+    ]
+  ])('reports %s in the order', (_description, order, errors) => {
+    expect(validateQuery(entityType, undefined, order)).toEqual(errors)
+  })
+})
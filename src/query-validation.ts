@@ -0,0 +1,478 @@
+/**
+ * Validation of queries against entity schemas
+ *
+ * Queries may come from API clients, so they are checked before they are compiled to SQL. Validation reports every
+ * problem it finds, each one addressed by a JSON pointer, so that the errors can be returned in a 400 response.
+ *
+ * @module lib/query-validation
+ */
+
+import _ from 'lodash'
+import {Schema} from 'schema-fun'
+
+import {EntityType} from './entity-types.js'
+import {docorm} from './index.js'
+import {propertyPathStringToArray} from './postgresql/raw-dao.js'
+import {
+  existenceClauseOperatorAndPath,
+  QUERY_PATTERN_OPERATORS,
+  QueryClause,
+  queryClauseIsAll,
+  queryClauseIsAnd,
+  queryClauseIsAny,
+  queryClauseIsArray,
+  queryClauseIsBetween,
+  queryClauseIsComparison,
+  queryClauseIsExistence,
+  queryClauseIsFullTextSearch,
+  queryClauseIsIn,
+  queryClauseIsNot,
+  queryClauseIsOr,
+  queryClauseIsPattern,
+  QueryExpression,
+  queryExpressionIsCoalesce,
+  queryExpressionIsConstant,
+  queryExpressionIsConstantList,
+  queryExpressionIsFullText,
+  queryExpressionIsFunction,
+  queryExpressionIsOperator,
+  queryExpressionIsPath,
+  queryExpressionIsRange,
+  queryExpressionIsSize,
+  QueryOrder,
+  QueryPath
+} from './queries.js'
+import {getQueryFunction} from './query-functions.js'
+
+/** A problem found in a query or query order. */
+export interface QueryValidationError {
+  /**
+   * A JSON pointer to the invalid part of the query or order, relative to an object with properties query and order.
+   * For instance, `/query/and/0/l` refers to the left side of the first subclause of an and clause.
+   */
+  path: string
+  message: string
+}
+
+/**
+ * The JSON type of a value, as named in JSON Schema, except that integers are numbers. An empty list means that the
+ * type is not known.
+ */
+type JsonType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null'
+
+/** Properties that every item has, even if its schema does not mention them. */
+const SYSTEM_PROPERTY_TYPES: {[path: string]: JsonType[]} = {
+  _id: ['string', 'number'],
+  _type: ['string']
+}
+
+/** Types whose values can be compared by the ordering operators <, <=, >, >= and between. */
+const ORDERED_TYPES: JsonType[] = ['string', 'number']
+
+interface ValidationContext {
+  /**
+   * The schema in which paths are resolved. In the subclause of an any or all clause, this is the schema of the array's
+   * elements, or undefined if it is not known.
+   */
+  schema: Schema | undefined
+  /** A flag indicating whether paths are relative to the item, in which case system properties may be used. */
+  isItem: boolean
+  errors: QueryValidationError[]
+}
+
+function jsonPointer(path: (string | number)[]) {
+  return '/' + path.map((token) => String(token).replace(/~/g, '~0').replace(/\//g, '~1')).join('/')
+}
+
+function addError(context: ValidationContext, path: (string | number)[], message: string) {
+  context.errors.push({path: jsonPointer(path), message})
+}
+
+/**
+ * Resolve a schema that refers to another schema.
+ *
+ * @param schema The schema, which may be a reference.
+ * @return The referenced schema, or the schema itself if it is not a reference.
+ */
+function dereferenceSchema(schema: Schema | undefined): Schema | undefined {
+  const ref = (schema as any)?.$ref
+  return ref ? docorm.config.schemaRegistry?.getSchema(ref) : schema
+}
+
+/**
+ * Find the schema of the property to which a query path refers.
+ *
+ * Array indices in the path refer to elements of array properties, whose schemas are given by the arrays' items.
+ *
+ * @param schema The schema in which to look for the property.
+ * @param path The path, which is relative to values described by the schema.
+ * @return The property's schema, or undefined if the schema has no such property.
+ */
+function findPropertySchema(schema: Schema, path: QueryPath): Schema | undefined {
+  let currentSchema: Schema | undefined = schema
+  let propertyNames: string[] = []
+  const findProperty = () => {
+    if (currentSchema && propertyNames.length > 0) {
+      currentSchema = docorm.config.schemaRegistry?.findPropertyInSchema(currentSchema, propertyNames.join('.'))
+      propertyNames = []
+    }
+  }
+  for (const component of propertyPathStringToArray(path, false)) {
+    if (typeof component == 'number') {
+      findProperty()
+      currentSchema = dereferenceSchema((dereferenceSchema(currentSchema) as any)?.items)
+    } else if (component != '') {
+      propertyNames.push(component)
+    }
+  }
+  findProperty()
+  return currentSchema
+}
+
+/**
+ * Get the JSON types that a schema allows.
+ *
+ * @param schema The schema.
+ * @return The types, or an empty list if the schema does not restrict its values' type.
+ */
+function jsonTypesFromSchema(schema: Schema | undefined): JsonType[] {
+  const type = (dereferenceSchema(schema) as any)?.type
+  if (type == null) {
+    return []
+  }
+  return _.uniq(_.castArray(type).map((t: string) => t == 'integer' ? 'number' : t)) as JsonType[]
+}
+
+/**
+ * Check a path against the schema.
+ *
+ * @param path The query path.
+ * @param location The location of the path expression in the query.
+ * @param context The validation context.
+ * @return The schema of the property to which the path refers, or undefined if it cannot be found. The JSON types of
+ *   system properties are returned in place of a schema.
+ */
+function validatePath(
+    path: QueryPath,
+    location: (string | number)[],
+    context: ValidationContext
+): {schema?: Schema, types: JsonType[]} | undefined {
+  if (!_.isString(path)) {
+    addError(context, location, 'Path must be a string.')
+    return undefined
+  }
+  if (context.isItem && _.has(SYSTEM_PROPERTY_TYPES, path)) {
+    return {types: SYSTEM_PROPERTY_TYPES[path]}
+  }
+  if (!context.schema) {
+    // The schema of array elements is not known, so any path is allowed.
+    return {types: []}
+  }
+  if (path == '' && !context.isItem) {
+    return {schema: context.schema, types: jsonTypesFromSchema(context.schema)}
+  }
+  const propertySchema = findPropertySchema(context.schema, path)
+  if (!propertySchema) {
+    addError(context, location, `Unknown property "${path}".`)
+    return undefined
+  }
+  return {schema: propertySchema, types: jsonTypesFromSchema(propertySchema)}
+}
+
+/**
+ * Check a query expression, and determine the types of its values.
+ *
+ * @param expression The expression.
+ * @param location The location of the expression in the query.
+ * @param context The validation context.
+ * @return The JSON types that the expression's value may have, or an empty list if they are not known or the
+ *   expression is invalid.
+ */
+function validateExpression(
+    expression: QueryExpression,
+    location: (string | number)[],
+    context: ValidationContext
+): JsonType[] {
+  if (!_.isPlainObject(expression)) {
+    addError(context, location, 'Expression must be an object.')
+    return []
+  } else if (queryExpressionIsConstant(expression)) {
+    const constant = expression.constant
+    if (constant == null) {
+      return ['null']
+    } else if (!['string', 'number', 'boolean'].includes(typeof constant)) {
+      addError(context, [...location, 'constant'], 'Constant must be a string, number, boolean or null.')
+      return []
+    }
+    return [typeof constant as JsonType]
+  } else if (queryExpressionIsConstantList(expression)) {
+    addError(context, location, 'A list of constants is not allowed here.')
+    return []
+  } else if (queryExpressionIsPath(expression)) {
+    return validatePath(expression.path, [...location, 'path'], context)?.types || []
+  } else if (queryExpressionIsSize(expression)) {
+    validateArrayPath(expression.size, [...location, 'size'], context)
+    return ['number']
+  } else if (queryExpressionIsFullText(expression)) {
+    return ['string']
+  } else if (queryExpressionIsCoalesce(expression)) {
+    if (!_.isArray(expression.coalesce)) {
+      addError(context, [...location, 'coalesce'], 'Coalesce expression must have a list of expressions.')
+      return []
+    }
+    const types = expression.coalesce.map((subexpression, i) =>
+      validateExpression(subexpression, [...location, 'coalesce', i], context)
+    )
+    return types.some((t) => t.length == 0) ? [] : _.uniq(types.flat())
+  } else if (queryExpressionIsFunction(expression)) {
+    const queryFunction = _.isString(expression.function) ? getQueryFunction(expression.function) : undefined
+    if (!queryFunction) {
+      addError(context, [...location, 'function'], `Unknown function "${expression.function}".`)
+    }
+    const parameterTypes = validateParameters(expression.parameters, [...location, 'parameters'], context)
+    if (!queryFunction || !parameterTypes) {
+      return []
+    }
+    if (parameterTypes.length != queryFunction.argumentTypes.length) {
+      addError(
+        context,
+        [...location, 'parameters'],
+        `Function "${expression.function}" takes ${queryFunction.argumentTypes.length} arguments.`
+      )
+    } else {
+      parameterTypes.forEach((types, i) => {
+        const argumentType = queryFunction.argumentTypes[i]
+        if (comparisonTypeError(types, [argumentType], false)) {
+          addError(context, [...location, 'parameters', i], `Argument must be of type ${argumentType}.`)
+        }
+      })
+    }
+    return [queryFunction.returnType]
+  } else if (queryExpressionIsOperator(expression)) {
+    if (!_.isString(expression.operator) || !['AND', 'OR', 'NOT'].includes(expression.operator.toUpperCase())) {
+      addError(context, [...location, 'operator'], `Unknown operator "${expression.operator}".`)
+    }
+    validateParameters(expression.parameters, [...location, 'parameters'], context)
+    return ['boolean']
+  } else if (queryExpressionIsRange(expression)) {
+    addError(context, location, 'A range is not allowed here.')
+    return []
+  }
+  addError(context, location, 'Unrecognized expression.')
+  return []
+}
+
+/**
+ * Check the parameters of a function or operator expression.
+ *
+ * @param parameters The parameter expressions.
+ * @param location The location of the parameter list in the query.
+ * @param context The validation context.
+ * @return The JSON types of each parameter, or undefined if the parameter list is invalid.
+ */
+function validateParameters(
+    parameters: QueryExpression[] | undefined,
+    location: (string | number)[],
+    context: ValidationContext
+): JsonType[][] | undefined {
+  if (parameters == null) {
+    return []
+  }
+  if (!_.isArray(parameters)) {
+    addError(context, location, 'Parameters must be a list of expressions.')
+    return undefined
+  }
+  return parameters.map((parameter, i) => validateExpression(parameter, [...location, i], context))
+}
+
+/**
+ * Check that a path expression refers to an array property.
+ *
+ * @param expression The path expression.
+ * @param location The location of the expression in the query.
+ * @param context The validation context.
+ * @return The schema of the array's elements, or undefined if it is not known.
+ */
+function validateArrayPath(
+    expression: QueryExpression,
+    location: (string | number)[],
+    context: ValidationContext
+): Schema | undefined {
+  if (!_.isPlainObject(expression) || !queryExpressionIsPath(expression)) {
+    addError(context, location, 'Expression must be a path.')
+    return undefined
+  }
+  const property = validatePath(expression.path, [...location, 'path'], context)
+  if (property && property.types.length > 0 && !property.types.includes('array')) {
+    addError(context, [...location, 'path'], `Property "${expression.path}" is not an array.`)
+  }
+  return dereferenceSchema((dereferenceSchema(property?.schema) as any)?.items)
+}
+
+/**
+ * Check that two operands can be compared.
+ *
+ * @param leftTypes The JSON types of the left operand, or an empty list if they are not known.
+ * @param rightTypes The JSON types of the right operand, or an empty list if they are not known.
+ * @param ordered A flag indicating whether the operator orders its operands, rather than testing them for equality.
+ * @return An error message, or undefined if the operands are compatible.
+ */
+function comparisonTypeError(leftTypes: JsonType[], rightTypes: JsonType[], ordered: boolean): string | undefined {
+  // Any value may be compared with null.
+  const left = _.without(leftTypes, 'null')
+  const right = _.without(rightTypes, 'null')
+  if (ordered) {
+    for (const types of [left, right]) {
+      if (types.length > 0 && _.intersection(types, ORDERED_TYPES).length == 0) {
+        return `Values of type ${types.join(' or ')} cannot be ordered.`
+      }
+    }
+  }
+  if (left.length > 0 && right.length > 0 && _.intersection(left, right).length == 0) {
+    return `Values of type ${left.join(' or ')} cannot be compared with values of type ${right.join(' or ')}.`
+  }
+  return undefined
+}
+
+function validateClause(clause: QueryClause, location: (string | number)[], context: ValidationContext) {
+  if (clause === true || clause === false) {
+    return
+  } else if (!_.isPlainObject(clause)) {
+    addError(context, location, 'Clause must be an object or a boolean.')
+  } else if (queryClauseIsAnd(clause) || queryClauseIsOr(clause)) {
+    const key = queryClauseIsAnd(clause) ? 'and' : 'or'
+    const subclauses = (clause as any)[key]
+    if (!_.isArray(subclauses)) {
+      addError(context, [...location, key], `The ${key} clause must have a list of subclauses.`)
+    } else {
+      subclauses.forEach((subclause, i) => validateClause(subclause, [...location, key, i], context))
+    }
+  } else if (queryClauseIsNot(clause)) {
+    validateClause(clause.not, [...location, 'not'], context)
+  } else if (queryClauseIsAny(clause) || queryClauseIsAll(clause)) {
+    const key = queryClauseIsAny(clause) ? 'any' : 'all'
+    const elementSchema = validateArrayPath((clause as any)[key], [...location, key], context)
+    validateClause(clause.where, [...location, 'where'], {...context, schema: elementSchema, isItem: false})
+  } else if (queryClauseIsExistence(clause)) {
+    const [operator, expression] = existenceClauseOperatorAndPath(clause)
+    if (!_.isPlainObject(expression) || !queryExpressionIsPath(expression)) {
+      addError(context, [...location, operator], 'Expression must be a path.')
+    } else {
+      validatePath(expression.path, [...location, operator, 'path'], context)
+    }
+  } else if (queryClauseIsArray(clause)) {
+    validateArrayPath(clause.l, [...location, 'l'], context)
+  } else if (queryClauseIsFullTextSearch(clause)) {
+    for (const side of ['l', 'r'] as const) {
+      const types = _.without(validateExpression(clause[side], [...location, side], context), 'null')
+      if (types.length > 0 && !types.includes('string')) {
+        addError(context, [...location, side], 'Text search requires a string.')
+      }
+    }
+  } else if (queryClauseIsPattern(clause)) {
+    for (const side of ['l', 'r'] as const) {
+      const types = _.without(validateExpression(clause[side], [...location, side], context), 'null')
+      if (types.length > 0 && !types.includes('string')) {
+        addError(context, [...location, side], `The ${clause.operator} operator requires a string.`)
+      }
+    }
+  } else if (queryClauseIsIn(clause)) {
+    const leftTypes = validateExpression(clause.l, [...location, 'l'], context)
+    if (!_.isPlainObject(clause.r) || !queryExpressionIsConstantList(clause.r)) {
+      addError(context, [...location, 'r'], 'The in operator requires a list of constants.')
+    } else {
+      clause.r.constant.forEach((constant, i) => {
+        const rightTypes = validateExpression({constant}, [...location, 'r', 'constant', i], context)
+        const message = comparisonTypeError(leftTypes, rightTypes, false)
+        if (message) {
+          addError(context, [...location, 'r', 'constant', i], message)
+        }
+      })
+    }
+  } else if (queryClauseIsBetween(clause)) {
+    const leftTypes = validateExpression(clause.l, [...location, 'l'], context)
+    const range = (clause.r as any)?.range
+    if (!_.isArray(range) || range.length != 2) {
+      addError(context, [...location, 'r'], 'The between operator requires a range of two constants.')
+    } else {
+      range.forEach((bound, i) => {
+        const boundLocation = [...location, 'r', 'range', i]
+        if (!_.isPlainObject(bound) || !queryExpressionIsConstant(bound)) {
+          addError(context, boundLocation, 'Range bounds must be constants.')
+          return
+        }
+        const message = comparisonTypeError(leftTypes, validateExpression(bound, boundLocation, context), true)
+        if (message) {
+          addError(context, boundLocation, message)
+        }
+      })
+    }
+  } else if (queryClauseIsComparison(clause)) {
+    const leftTypes = validateExpression(clause.l, [...location, 'l'], context)
+    const rightTypes = validateExpression(clause.r, [...location, 'r'], context)
+    const ordered = ['<', '>', '<=', '>='].includes(clause.operator || '=')
+    const message = comparisonTypeError(leftTypes, rightTypes, ordered)
+    if (message) {
+      addError(context, location, message)
+    }
+  } else if (_.isString((clause as any).operator)) {
+    const operator = (clause as any).operator
+    const knownOperator = QUERY_PATTERN_OPERATORS.includes(operator)
+        || ['contains', 'containedBy', 'overlaps'].includes(operator)
+    const message = knownOperator ? `Bad operands for the ${operator} operator.` : `Unknown operator "${operator}".`
+    addError(context, [...location, 'operator'], message)
+  } else {
+    addError(context, location, 'Unrecognized clause.')
+  }
+}
+
+function validateOrder(order: QueryOrder, location: (string | number)[], context: ValidationContext) {
+  if (!_.isArray(order)) {
+    addError(context, location, 'Order must be a list.')
+    return
+  }
+  order.forEach((element, i) => {
+    let property = element
+    let elementLocation = [...location, i]
+    if (_.isArray(element)) {
+      const direction = element[1]
+      if (!_.isString(direction) || !['asc', 'desc'].includes(direction.toLowerCase())) {
+        addError(context, [...elementLocation, 1], 'Direction must be asc or desc.')
+      }
+      property = element[0]
+      elementLocation = [...elementLocation, 0]
+    }
+    if (!_.isPlainObject(property) || !queryExpressionIsPath(property as QueryExpression)) {
+      addError(context, elementLocation, 'Order element must be a path.')
+    } else {
+      validatePath((property as any).path, [...elementLocation, 'path'], context)
+    }
+  })
+}
+
+/**
+ * Check a query and query order against an entity type's schema.
+ *
+ * Validation checks that the query is well-formed, that every path refers to a property in the schema, that operators
+ * are applied to values of suitable types, and that every function is one that queries may call. Paths are those seen
+ * by callers of the entity type's DAO, so they should not include the draft prefix.
+ *
+ * @param entityType The entity type whose items the query selects.
+ * @param query The query, or undefined if there is none.
+ * @param order The query order, or undefined if there is none.
+ * @return A list of errors, which is empty if the query and order are valid.
+ */
+export function validateQuery(
+    entityType: EntityType,
+    query?: QueryClause,
+    order?: QueryOrder
+): QueryValidationError[] {
+  const context: ValidationContext = {schema: entityType.schema, isItem: true, errors: []}
+  if (query !== undefined) {
+    validateClause(query, ['query'], context)
+  }
+  if (order !== undefined) {
+    validateOrder(order, ['order'], context)
+  }
+  return context.errors
+}